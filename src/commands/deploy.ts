@@ -1,7 +1,15 @@
 import { Command } from "npm:commander";
-import { ConfigParser, Environment } from "../config/parser.ts";
+import { ConfigParser } from "../config/parser.ts";
+import { resolveEnvironments } from "../utils/environments.ts";
+import { loadConfig } from "../utils/config.ts";
 import { CloudRunService } from "../services/cloudrun.ts";
-import { readFileSync, existsSync } from "node:fs";
+import { JobService } from "../services/jobs.ts";
+import { RegistryService } from "../services/registry.ts";
+import { resolveCredentialsPath } from "../utils/credentials.ts";
+import { printPlan } from "./plan.ts";
+import { selectRevision } from "./rollback.ts";
+import { failedSecrets, printSecretSync } from "./secrets.ts";
+import { SECRET_ACCESSOR_ROLE, SecretsManagerService } from "../services/secrets_manager.ts";
 import inquirer from "npm:inquirer";
 import * as process from 'node:process'
 
@@ -9,42 +17,21 @@ export function createDeployCommand(): Command {
   return new Command("deploy")
     .description("Deploy or rollback service to Cloud Run")
     .option("-c, --config <path>", "Configuration file path", "cloudrun.yaml")
-    .option("-e, --env <environment>", "Target environment (dev/staging/prod)", "dev")
+    .option("-e, --env <environment>", "Target environment declared in config", "dev")
     .option("-k, --key <path>", "Path to service account key file or 'json' for GitHub Actions")
-    .option("--rollback", "Rollback to a previous revision")
+    .option("--rollback", "Rollback to a previous revision (deprecated, use the rollback command)")
+    .option("--image-tag <tag>", "Deploy a previously built image tag instead of the latest package output")
     .option("--all-envs", "Deploy to all environments defined in config")
+    .option("--plan", "Show the changes against the live service and confirm before deploying")
+    .option("-y, --yes", "Skip the confirmation prompt of --plan")
+    .option("--skip-secret-check", "Deploy without checking that referenced secrets exist and are readable")
     .action(async (options) => {
-      const baseConfig = ConfigParser.parse(options.config);
+      const baseConfig = loadConfig(options.config);
 
-      let credentialsPath: string | undefined;
-      if (options.key) {
-        if (options.key === "json") {
-          credentialsPath = "json";
-        } else if (existsSync(options.key)) {
-          credentialsPath = options.key;
-        } else {
-          console.error(`Service account key file not found: ${options.key}`);
-          process.exit(1);
-        }
-      }
+      const credentialsPath = resolveCredentialsPath(options.key);
 
-      // Determine which environments to deploy to
-      const envsToProcess: Environment[] = [];
-      
-      if (options.allEnvs) {
-        // Get all environments defined in the config
-        if (baseConfig.environments.dev) envsToProcess.push('dev');
-        if (baseConfig.environments.staging) envsToProcess.push('staging');
-        if (baseConfig.environments.prod) envsToProcess.push('prod');
-      } else {
-        // Validate single environment
-        const targetEnv = options.env as Environment;
-        if (!baseConfig.environments[targetEnv]) {
-          console.error(`Environment '${targetEnv}' not defined in config`);
-          process.exit(1);
-        }
-        envsToProcess.push(targetEnv);
-      }
+      // Determine which environments to process
+      const envsToProcess = resolveEnvironments(baseConfig, options);
 
       console.log('Environments to process:', envsToProcess);
 
@@ -56,28 +43,75 @@ export function createDeployCommand(): Command {
         const envConfig = ConfigParser.getConfigForEnv(baseConfig, env);
         
         // Create service instance with environment-specific config
-        const service = new CloudRunService(envConfig, credentialsPath);
-
-        if (options.rollback) {
-          const revisions = await service.getRevisions(envConfig);
-          if (revisions.length === 0) {
-            console.log(`No revisions found for rollback in ${env} environment.`);
-            continue;
-          }
+        const service = new CloudRunService(credentialsPath);
 
-          const answers = await inquirer.prompt([
-            {
-              type: "list",
-              name: "revision",
-              message: `Select revision to rollback to for ${env}:`,
-              choices: revisions,
-            },
-          ]);
+        if (options.rollback && envConfig.kind === "job") {
+          console.error("Jobs have no revisions to roll back to, deploy a previous image tag with --image-tag instead");
+          process.exit(1);
+        } else if (options.rollback) {
+          console.warn("deploy --rollback is deprecated, use `cloudrunify rollback --to <revision|tag|previous>`");
+          try {
+            const revision = await selectRevision(service, envConfig, env);
+            if (!revision) {
+              console.log(`No revisions found for rollback in ${env} environment.`);
+              continue;
+            }
 
-          await service.rollback(envConfig, answers.revision);
+            await service.rollback(envConfig, revision);
+          } catch (error) {
+            console.error(`Failed to roll back ${env} environment:`, error instanceof Error ? error.message : error);
+            process.exit(1);
+          }
         } else {
           try {
-            await service.deploy(envConfig);
+            // Pin the revision to the image digests
+            const registry = new RegistryService(credentialsPath);
+            const image = await registry.resolveDeployImage(envConfig, options.config, env, options.imageTag);
+            const deployConfig = await registry.resolveSidecarImages(envConfig, options.config, env, options.imageTag);
+
+            if (options.plan && envConfig.kind === "job") {
+              console.warn("--plan only applies to services, deploying the job without a plan");
+            } else if (options.plan) {
+              printPlan(envConfig.service.name, await service.plan(deployConfig, image));
+
+              if (!options.yes) {
+                const answers = await inquirer.prompt([
+                  {
+                    type: "confirm",
+                    name: "proceed",
+                    message: `Deploy these changes to ${env}?`,
+                    default: false,
+                  },
+                ]);
+                if (!answers.proceed) {
+                  console.log(`Skipped deployment to ${env} environment`);
+                  continue;
+                }
+              }
+            }
+
+            // Catch missing secrets before Cloud Run fails to start the revision.
+            // The check only reads, `secret sync` creates secrets and grants access.
+            if (!options.skipSecretCheck) {
+              const results = await new SecretsManagerService(credentialsPath).syncSecrets(envConfig, { dryRun: true });
+              const problems = failedSecrets(results);
+              if (problems.length > 0) {
+                printSecretSync(problems, true);
+                throw new Error("Secrets referenced in config are not available, run `cloudrunify secret sync` to create them");
+              }
+              for (const result of results.filter((result) => result.accessGranted)) {
+                console.warn(
+                  `Warning: the runtime service account has no ${SECRET_ACCESSOR_ROLE} binding on secret ${result.name}. ` +
+                    "Run `cloudrunify secret sync` to grant it, unless it is granted on the project.",
+                );
+              }
+            }
+
+            if (envConfig.kind === "job") {
+              await new JobService(credentialsPath).deploy(deployConfig, image);
+            } else {
+              await service.deploy(deployConfig, image);
+            }
             console.log(`Successfully deployed to ${env} environment`);
           } catch (error) {
             console.error(`Failed to deploy to ${env} environment:`, error);
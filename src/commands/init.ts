@@ -9,6 +9,11 @@ const DEFAULT_TEMPLATE = `
   project_id: # GCP Project ID
   region: # Default region for the service
 
+  environments: # Named environments, each can override any section below
+    dev:
+      project_id: # GCP Project ID for this environment (optional)
+      region: # Region for this environment (optional)
+
   service: # Service configuration
     name: # Cloud Run service name
     allow_unauthenticated: <boolean> # Whether to allow unauthenticated access
@@ -26,7 +31,7 @@ const DEFAULT_TEMPLATE = `
     scaling:
       min_instances: # Minimum number of instances
       max_instances: # Maximum number of instances
-      target_cpu_utilization: # Target CPU utilization
+      concurrency: # Maximum concurrent requests per instance
 
   traffic: # Traffic routing configuration
     - tag: # Traffic tag (e.g., 'current', 'previous')
@@ -37,9 +42,11 @@ const DEFAULT_TEMPLATE = `
       version: # Version of the secret
       mount_path: # Path to mount the secret (optional)
 
-  custom_domain: # Custom domain configuration
+  custom_domain: # Custom domains, mapped to the service or served by the load balancer
     domain: # Custom domain (optional)
-    certificate: # Certificate for HTTPS (optional)
+    domains: # More hostnames of the same service (optional)
+    certificate: # Name of the load balancer's SSL certificate for the domains (optional)
+    certificate_timeout: # How long deploy waits for the certificate, e.g. 15m (optional)
 `;
 
 export function createInitCommand(): Command {
@@ -0,0 +1,95 @@
+import { Command, Option } from "npm:commander";
+import { CloudRunConfig, ConfigParser } from "../config/parser.ts";
+import { loadConfig } from "../utils/config.ts";
+import { resolveCredentialsPath } from "../utils/credentials.ts";
+import { resolveEnvironments } from "../utils/environments.ts";
+import { parsePositiveInteger } from "../utils/options.ts";
+import { formatTable } from "../utils/table.ts";
+import { formatExecutionStatus, JobService } from "../services/jobs.ts";
+import * as process from "node:process";
+
+function loadJobConfig(options: { config: string; env: string }): CloudRunConfig {
+  const baseConfig = loadConfig(options.config);
+  if (baseConfig.kind !== "job") {
+    console.error(`${options.config} describes a service. Set \`kind: job\` to manage a Cloud Run job.`);
+    process.exit(1);
+  }
+  const [env] = resolveEnvironments(baseConfig, options);
+  return ConfigParser.getConfigForEnv(baseConfig, env);
+}
+
+function createRunCommand(): Command {
+  return new Command("run")
+    .description("Start an execution of the deployed job")
+    .option("-c, --config <path>", "Configuration file path", "cloudrun.yaml")
+    .option("-e, --env <environment>", "Target environment declared in config", "dev")
+    .option("-k, --key <path>", "Path to service account key file or 'json' for GitHub Actions")
+    .option("--wait", "Wait for the execution to finish, printing its progress")
+    .action(async (options) => {
+      const config = loadJobConfig(options);
+      const jobs = new JobService(resolveCredentialsPath(options.key));
+
+      try {
+        console.log(`Running job ${config.service.name} in ${options.env}...`);
+        const status = await jobs.run(config, {
+          wait: options.wait,
+          onStatus: (status) => console.log(formatExecutionStatus(status)),
+        });
+        if (status.logUri) {
+          console.log(`Logs: ${status.logUri}`);
+        }
+        if (status.state === "failed" || status.state === "cancelled") {
+          console.error(`Execution ${status.name} ${status.state}${status.message ? `: ${status.message}` : ""}`);
+          process.exit(1);
+        }
+      } catch (error) {
+        console.error(`Failed to run job in ${options.env} environment:`, error);
+        process.exit(1);
+      }
+    });
+}
+
+function createExecutionsCommand(): Command {
+  return new Command("executions")
+    .description("List the most recent executions of the deployed job")
+    .option("-c, --config <path>", "Configuration file path", "cloudrun.yaml")
+    .option("-e, --env <environment>", "Target environment declared in config", "dev")
+    .option("-k, --key <path>", "Path to service account key file or 'json' for GitHub Actions")
+    .addOption(
+      new Option("--limit <count>", "Number of executions to list").default(10).argParser(parsePositiveInteger),
+    )
+    .addOption(new Option("-o, --output <format>", "Output format").choices(["table", "json"]).default("table"))
+    .action(async (options) => {
+      const config = loadJobConfig(options);
+      const jobs = new JobService(resolveCredentialsPath(options.key));
+
+      try {
+        const executions = await jobs.listExecutions(config, options.limit);
+        if (options.output === "json") {
+          console.log(JSON.stringify(executions, null, 2));
+          return;
+        }
+        console.log(formatTable(
+          ["NAME", "STATE", "TASKS", "STARTED", "COMPLETED"],
+          executions.map((execution) => [
+            execution.name,
+            execution.state,
+            `${execution.tasks.succeeded}/${execution.tasks.total}` +
+            (execution.tasks.failed > 0 ? ` (${execution.tasks.failed} failed)` : ""),
+            execution.createTime || "-",
+            execution.completionTime || "-",
+          ]),
+        ));
+      } catch (error) {
+        console.error(`Failed to list executions in ${options.env} environment:`, error);
+        process.exit(1);
+      }
+    });
+}
+
+export function createJobCommand(): Command {
+  return new Command("job")
+    .description("Run a Cloud Run job deployed from a `kind: job` config and list its executions")
+    .addCommand(createRunCommand())
+    .addCommand(createExecutionsCommand());
+}
@@ -0,0 +1,75 @@
+import { Command, InvalidArgumentError, Option } from "npm:commander";
+import { ConfigParser } from "../config/parser.ts";
+import { formatLogEntry, LOG_SEVERITIES, LogEntry, LogService } from "../services/logs.ts";
+import { loadServiceConfig } from "../utils/config.ts";
+import { resolveCredentialsPath } from "../utils/credentials.ts";
+import { parseDuration } from "../utils/duration.ts";
+import { resolveEnvironments } from "../utils/environments.ts";
+import { parsePositiveInteger } from "../utils/options.ts";
+import * as process from "node:process";
+
+export function createLogsCommand(): Command {
+  return new Command("logs")
+    .description("Read the service's logs from Cloud Logging")
+    .option("-c, --config <path>", "Configuration file path", "cloudrun.yaml")
+    .option("-e, --env <environment>", "Target environment declared in config", "dev")
+    .option("-k, --key <path>", "Path to service account key file or 'json' for GitHub Actions")
+    .option("--revision <name>", "Only show the logs of this revision")
+    .option("--since <duration>", "Only show entries newer than this, e.g. 10m or 2h", "1h")
+    .addOption(
+      new Option("--severity <level>", "Only show entries of this severity and above")
+        .choices(LOG_SEVERITIES)
+        .argParser((value) => {
+          const severity = value.toUpperCase();
+          if (!(LOG_SEVERITIES as readonly string[]).includes(severity)) {
+            throw new InvalidArgumentError(`Allowed choices are ${LOG_SEVERITIES.join(", ")}.`);
+          }
+          return severity;
+        }),
+    )
+    .option("--grep <text>", "Only show entries containing this text")
+    .addOption(
+      new Option("--limit <count>", "Number of most recent entries to show")
+        .default(100)
+        .argParser(parsePositiveInteger),
+    )
+    .option("-f, --follow", "Keep printing new entries as they arrive")
+    .option("--json", "Print one JSON object per entry")
+    .action(async (options) => {
+      const baseConfig = loadServiceConfig(options.config, "logs");
+      const [env] = resolveEnvironments(baseConfig, options);
+      const config = ConfigParser.getConfigForEnv(baseConfig, env);
+      const logs = new LogService(config, resolveCredentialsPath(options.key));
+
+      try {
+        parseDuration(options.since);
+      } catch (error) {
+        console.error((error as Error).message);
+        process.exit(1);
+      }
+
+      const query = {
+        revision: options.revision,
+        since: options.since,
+        severity: options.severity,
+        grep: options.grep,
+        limit: options.limit,
+      };
+      const color = !options.json && process.stdout.isTTY === true && !process.env.NO_COLOR;
+      const print = (entry: LogEntry) => console.log(options.json ? JSON.stringify(entry) : formatLogEntry(entry, color));
+
+      try {
+        if (options.follow) {
+          await logs.follow(query, print);
+        }
+        const entries = await logs.list(query);
+        if (entries.length === 0 && !options.json) {
+          console.error(`No log entries for ${config.service.name} in ${options.env} matching the query.`);
+        }
+        entries.forEach(print);
+      } catch (error) {
+        console.error(`Failed to read logs of ${options.env} environment:`, error);
+        process.exit(1);
+      }
+    });
+}
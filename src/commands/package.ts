@@ -1,18 +1,21 @@
 import { Command } from 'npm:commander';
-import { exec } from 'node:child_process';
-import { promisify } from 'node:util';
-import { ConfigParser, Environment } from '../config/parser.ts';
+import { ConfigParser } from '../config/parser.ts';
+import { ImageBuilderService } from '../services/image_builder.ts';
+import { RegistryService, writeImageRecord } from '../services/registry.ts';
+import { resolveCredentialsPath } from '../utils/credentials.ts';
+import { createImageTag, parseImage } from '../utils/image.ts';
+import { resolveEnvironments } from '../utils/environments.ts';
+import { loadConfig } from '../utils/config.ts';
 import { existsSync } from 'node:fs';
 import { join } from 'node:path';
 import * as process from 'node:process'
 
-const execPromise = promisify(exec);
-
 export function createPackageCommand(): Command {
     return new Command('package')
-        .description('Build and push Docker image to Artifact Registry')
+        .description('Build and push the container images with the configured builder')
         .option('-c, --config <path>', 'Configuration file path', 'cloudrun.yaml')
-        .option('-e, --env <environment>', 'Target environment (dev/staging/prod)', 'dev')
+        .option('-e, --env <environment>', 'Target environment declared in config', 'dev')
+        .option('-k, --key <path>', "Path to service account key file or 'json' for GitHub Actions")
         .option('--all-envs', 'Build and push for all environments')
         .action(async (options) => {
             const configPath = join(process.cwd(), options.config);
@@ -21,57 +24,40 @@ export function createPackageCommand(): Command {
                 process.exit(1);
             }
 
-            const baseConfig = ConfigParser.parse(configPath);
+            const baseConfig = loadConfig(configPath);
 
             // Determine which environments to process
-            const envsToProcess: Environment[] = [];
-            
-            if (options.allEnvs) {
-                // Get all environments defined in the config
-                if (baseConfig.environments.dev) envsToProcess.push('dev');
-                if (baseConfig.environments.staging) envsToProcess.push('staging');
-                if (baseConfig.environments.prod) envsToProcess.push('prod');
-            } else {
-                // Validate single environment
-                const targetEnv = options.env as Environment;
-                if (!baseConfig.environments[targetEnv]) {
-                    console.error(`Environment '${targetEnv}' not defined in config`);
-                    process.exit(1);
-                }
-                envsToProcess.push(targetEnv);
-            }
+            const envsToProcess = resolveEnvironments(baseConfig, options);
 
             console.log('Environments to process:', envsToProcess);
 
-            // Build the base image once
-            const baseImageName = `gcr.io/${baseConfig.project_id}/${baseConfig.service.name}`;
-            
-            try {
-                // Build the Docker image
-                console.log(`Building base Docker image: ${baseImageName}`);
-                await execPromise(`docker build --platform linux/amd64 -t ${baseImageName} .`);
+            const builder = new ImageBuilderService();
+            const registry = new RegistryService(resolveCredentialsPath(options.key));
 
-                // Tag and push for each environment
+            try {
+                // Build and push the images each environment deploys
                 for (const env of envsToProcess) {
                     const envConfig = ConfigParser.getConfigForEnv(baseConfig, env);
-                    const envImageName = `${baseImageName}-${env}:latest`;
+                    const tag = createImageTag(envConfig.build?.tag_strategy);
 
                     console.log(`\nProcessing environment: ${env}`);
-                    console.log(`Tagging image for ${env}: ${envImageName}`);
-                    
-                    // Tag the image for this environment
-                    await execPromise(`docker tag ${baseImageName} ${envImageName}`);
+                    for (const container of ConfigParser.getBuiltContainers(envConfig)) {
+                        // Push under an immutable tag and record its digest for deploy
+                        const { repository } = parseImage(container.image);
+                        const build = { ...envConfig.build, ...container.build };
+                        await builder.build(envConfig, `${repository}:${tag}`, build);
 
-                    // Push the Docker image to Artifact Registry
-                    console.log(`Pushing Docker image to Artifact Registry: ${envImageName}`);
-                    await execPromise(`docker push ${envImageName}`);
+                        const digest = await registry.resolveDigest({ repository, tag });
+                        const record = { repository, tag, digest, built_at: new Date().toISOString() };
+                        writeImageRecord(configPath, env, record, envConfig.containers && container.name);
 
-                    console.log(`Successfully pushed image for ${env} environment`);
+                        console.log(`Successfully pushed ${repository}:${tag} (${digest}) for ${env} environment`);
+                    }
                 }
 
-                console.log('\nAll Docker images built and pushed successfully.');
+                console.log('\nAll images built and pushed successfully.');
             } catch (error) {
-                console.error('Error during Docker build or push:', error);
+                console.error('Error during image build or push:', error);
                 process.exit(1);
             }
         });
@@ -0,0 +1,78 @@
+import { Command } from "npm:commander";
+import { ConfigParser } from "../config/parser.ts";
+import { resolveEnvironments } from "../utils/environments.ts";
+import { loadServiceConfig } from "../utils/config.ts";
+import { CloudRunService, ServicePlan } from "../services/cloudrun.ts";
+import { RegistryService } from "../services/registry.ts";
+import { formatLoadBalancerActions, LoadBalancerService } from "../services/load_balancer.ts";
+import { formatChanges } from "../utils/diff.ts";
+import { resolveCredentialsPath } from "../utils/credentials.ts";
+import * as process from "node:process";
+
+// Exit code used when the live service differs from the config, so CI can
+// tell drift apart from failures (exit code 1).
+export const DRIFT_EXIT_CODE = 2;
+
+export function printPlan(serviceName: string, plan: ServicePlan) {
+  if (!plan.exists) {
+    console.log(`Service ${serviceName} does not exist and will be created.`);
+  }
+  if (plan.changes.length === 0) {
+    console.log(`No changes. Service ${serviceName} matches the configuration.`);
+    return;
+  }
+  console.log(`${plan.changes.length} change(s) for service ${serviceName}:`);
+  console.log(formatChanges(plan.changes));
+}
+
+export function createPlanCommand(): Command {
+  return new Command("plan")
+    .description("Show the changes deploy would make to the live service")
+    .option("-c, --config <path>", "Configuration file path", "cloudrun.yaml")
+    .option("-e, --env <environment>", "Target environment declared in config", "dev")
+    .option("-k, --key <path>", "Path to service account key file or 'json' for GitHub Actions")
+    .option("--all-envs", "Plan all environments defined in config")
+    .option("--image-tag <tag>", "Plan a deployment of a previously built image tag")
+    .action(async (options) => {
+      const baseConfig = loadServiceConfig(options.config, "plan");
+      const credentialsPath = resolveCredentialsPath(options.key);
+
+      // Determine which environments to process
+      const envsToProcess = resolveEnvironments(baseConfig, options);
+
+      let drift = false;
+      for (const env of envsToProcess) {
+        console.log(`\nPlanning environment: ${env}`);
+
+        const envConfig = ConfigParser.getConfigForEnv(baseConfig, env);
+        const service = new CloudRunService(credentialsPath);
+        const registry = new RegistryService(credentialsPath);
+
+        try {
+          const image = await registry.resolveDeployImage(envConfig, options.config, env, options.imageTag);
+          const deployConfig = await registry.resolveSidecarImages(envConfig, options.config, env, options.imageTag);
+          const plan = await service.plan(deployConfig, image);
+          printPlan(envConfig.service.name, plan);
+          drift = drift || !plan.exists || plan.changes.length > 0;
+
+          if (deployConfig.load_balancer) {
+            const { actions } = await LoadBalancerService.create(deployConfig, credentialsPath, true).apply(deployConfig);
+            if (actions.length === 0) {
+              console.log("No changes. Load balancer matches the configuration.");
+            } else {
+              console.log(`${actions.length} change(s) for the load balancer:`);
+              console.log(formatLoadBalancerActions(actions));
+              drift = true;
+            }
+          }
+        } catch (error) {
+          console.error(`Failed to plan ${env} environment:`, error);
+          process.exit(1);
+        }
+      }
+
+      if (drift) {
+        process.exit(DRIFT_EXIT_CODE);
+      }
+    });
+}
@@ -0,0 +1,88 @@
+import { Command } from "npm:commander";
+import inquirer from "npm:inquirer";
+import { CloudRunConfig, ConfigParser } from "../config/parser.ts";
+import { CloudRunService, TrafficStatus } from "../services/cloudrun.ts";
+import { resolveEnvironments } from "../utils/environments.ts";
+import { loadServiceConfig } from "../utils/config.ts";
+import { resolveCredentialsPath } from "../utils/credentials.ts";
+import { formatDuration } from "../utils/duration.ts";
+import { formatTable } from "../utils/table.ts";
+import * as process from "node:process";
+
+function printTraffic(title: string, traffic: TrafficStatus[]) {
+  console.log(`\n${title}`);
+  console.log(formatTable(
+    ["REVISION", "PERCENT", "TAG"],
+    traffic.map((target) => [target.revision, `${target.percent}%`, target.tag || "-"]),
+  ));
+}
+
+// Asks which revision to roll back to. Revisions that are not ready are
+// listed but cannot be picked.
+export async function selectRevision(service: CloudRunService, config: CloudRunConfig, env: string): Promise<string | undefined> {
+  if (!process.stdin.isTTY) {
+    throw new Error("No revision given and no terminal to pick one from, pass --to <revision|tag|previous>");
+  }
+
+  const revisions = await service.getRevisions(config);
+  if (revisions.length === 0) {
+    return undefined;
+  }
+
+  const answers = await inquirer.prompt([
+    {
+      type: "list",
+      name: "revision",
+      message: `Select revision to rollback to for ${env}:`,
+      choices: revisions.map((revision) => {
+        const ready = revision.ready.replace(/^CONDITION_/, "").toLowerCase();
+        const age = revision.createTime ? `${formatDuration(Date.now() - Date.parse(revision.createTime))} ago` : "-";
+        return {
+          name: `${revision.name}  ${revision.image.split("@")[0]}  ${age}  ${ready}`,
+          value: revision.name,
+          disabled: revision.ready !== "CONDITION_SUCCEEDED" && `not ready (${ready})`,
+        };
+      }),
+    },
+  ]);
+  return answers.revision;
+}
+
+export function createRollbackCommand(): Command {
+  return new Command("rollback")
+    .description("Route traffic back to a previous revision")
+    .option("-c, --config <path>", "Configuration file path", "cloudrun.yaml")
+    .option("-e, --env <environment>", "Target environment declared in config", "dev")
+    .option("-k, --key <path>", "Path to service account key file or 'json' for GitHub Actions")
+    .option("--to <target>", "Revision name, traffic tag or 'previous' to roll back to")
+    .option("--percent <percent>", "Share of traffic to route to the revision", "100")
+    .action(async (options) => {
+      const baseConfig = loadServiceConfig(options.config, "rollback");
+      const credentialsPath = resolveCredentialsPath(options.key);
+
+      const percent = Number(options.percent);
+      if (!Number.isInteger(percent) || percent < 1 || percent > 100) {
+        console.error(`Invalid --percent ${options.percent}, expected an integer between 1 and 100`);
+        process.exit(1);
+      }
+
+      const [env] = resolveEnvironments(baseConfig, options);
+      const envConfig = ConfigParser.getConfigForEnv(baseConfig, env);
+      const service = new CloudRunService(credentialsPath);
+
+      try {
+        const target = options.to || await selectRevision(service, envConfig, env);
+        if (!target) {
+          console.log(`No revisions found for rollback in ${env} environment.`);
+          return;
+        }
+
+        const result = await service.rollback(envConfig, target, percent);
+        printTraffic("Traffic before", result.before);
+        printTraffic("Traffic after", result.after);
+      } catch (error) {
+        console.error(`Failed to roll back ${env} environment:`, error instanceof Error ? error.message : error);
+        process.exit(1);
+      }
+    });
+}
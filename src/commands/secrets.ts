@@ -1,16 +1,121 @@
 import { Command } from "npm:commander";
-import { SecretsManagerService } from "../services/secrets_manager.ts";
+import inquirer from "npm:inquirer";
+import { ConfigParser } from "../config/parser.ts";
+import { SecretsManagerService, SecretSyncResult } from "../services/secrets_manager.ts";
+import {
+  EncryptedSecrets,
+  readSecretsFile,
+  SecretValues,
+  secretsFilePath,
+  secretsFileSource,
+  writeSecretsFile,
+} from "../services/encrypted_secrets.ts";
+import { createKeyProvider, DEFAULT_LOCAL_KEY_FILE, generateLocalKey, KeyProviderOptions } from "../services/key_providers.ts";
+import { resolveEnvironments } from "../utils/environments.ts";
+import { loadConfig } from "../utils/config.ts";
+import { resolveCredentialsPath } from "../utils/credentials.ts";
+import { formatTable } from "../utils/table.ts";
 import * as fs from "node:fs";
+import { spawnSync } from "node:child_process";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import * as process from "node:process"
+import { Buffer } from "node:buffer"
+import { parse, stringify } from "npm:yaml";
+
+interface ValueSourceOptions {
+  fromFile?: string;
+  fromEnv?: string;
+  fromLiteral?: string;
+}
+
+function readStdin(): Buffer {
+  return fs.readFileSync(process.stdin.fd);
+}
+
+// Reads the secret value from --from-file, --from-env, --from-literal or
+// piped stdin, in that order. Only an interactive terminal falls back to a
+// masked prompt, so CI never hangs waiting for input.
+async function readSecretValue(options: ValueSourceOptions, secretName: string): Promise<Buffer> {
+  const sources = [options.fromFile, options.fromEnv, options.fromLiteral].filter((source) => source !== undefined);
+  if (sources.length > 1) {
+    throw new Error("Use only one of --from-file, --from-env and --from-literal");
+  }
+
+  let value: Buffer;
+  if (options.fromFile !== undefined) {
+    value = options.fromFile === "-" ? readStdin() : fs.readFileSync(options.fromFile);
+  } else if (options.fromEnv !== undefined) {
+    const envValue = process.env[options.fromEnv];
+    if (envValue === undefined) {
+      throw new Error(`Environment variable ${options.fromEnv} is not set`);
+    }
+    value = Buffer.from(envValue);
+  } else if (options.fromLiteral !== undefined) {
+    value = Buffer.from(options.fromLiteral);
+  } else if (!process.stdin.isTTY) {
+    value = readStdin();
+  } else {
+    const answers = await inquirer.prompt([
+      {
+        type: "password",
+        name: "secretValue",
+        message: `Enter the value for secret ${secretName}:`,
+        mask: "*",
+      },
+    ]);
+    value = Buffer.from(answers.secretValue);
+  }
+
+  if (value.toString().trim() === "") {
+    throw new Error("Secret value cannot be empty.");
+  }
+  return value;
+}
+
+function keyProviderOptions(options: { secretsKey?: string; kmsKey?: string; key?: string }): KeyProviderOptions {
+  return {
+    keyFile: options.secretsKey,
+    kmsKey: options.kmsKey,
+    credentialsPath: resolveCredentialsPath(options.key),
+  };
+}
+
+function parseSecretValues(source: string): SecretValues {
+  const values = parse(source) || {};
+  if (typeof values !== "object" || Array.isArray(values)) {
+    throw new Error("Secrets must be a YAML mapping of secret names to values");
+  }
+  return Object.fromEntries(Object.entries(values).map(([name, value]) => [name, String(value)]));
+}
+
+// Secrets the service cannot start without
+export function failedSecrets(results: SecretSyncResult[]): SecretSyncResult[] {
+  return results.filter((result) => !["ok", "created"].includes(result.status));
+}
+
+export function printSecretSync(results: SecretSyncResult[], dryRun = false) {
+  console.log(formatTable(
+    ["SECRET", "VERSION", "STATUS", "ACCESS", "DETAILS"],
+    results.map((result) => [
+      result.project === results[0].project ? result.name : `projects/${result.project}/secrets/${result.name}`,
+      result.version,
+      result.status,
+      result.accessGranted ? (dryRun ? "would grant" : "granted") : "-",
+      result.message || "-",
+    ]),
+  ));
+}
 
 export function createSecretsCommand(): Command {
   const secretsCommand = new Command("secret")
     .description("Manage secrets in Google Cloud Secret Manager");
 
-  // Create command nested under the secrets command
+  // Creates the secret when needed and adds a version holding the value
   secretsCommand
-    .command("create")
-    .description("Create a new secret")
+    .command("set")
+    .alias("create")
+    .description("Create a secret or add a new version to an existing one")
     .requiredOption("-p, --project <projectId>", "Google Cloud Project ID")
     // @ts-ignore
     .requiredOption("-n, --name <secretName>", "Secret Name", null, (value: string, previous:string) => {
@@ -21,28 +126,36 @@ export function createSecretsCommand(): Command {
     })
     .requiredOption("-r, --region <region>", "Region", "us-central1")
     .option("-k, --key <path>", "Path to service account key file or 'json' for GitHub Actions")
+    .option("--from-file <path>", "Read the value from a file, or '-' for stdin")
+    .option("--from-env <variable>", "Read the value from an environment variable")
+    .option("--from-literal <value>", "Use the given value (visible in shell history)")
     .action(async (options) => {
       if (!options.project || !options.name || !options.region) {
         console.error("Project ID, secret name, and region are required.");
         process.exit(1);
       }
 
-      let credentialsPath: string | undefined;
-      if (options.key) {
-        if (options.key === "json") {
-          credentialsPath = "json";
-        } else if (fs.existsSync(options.key)) {
-          credentialsPath = options.key;
-        } else {
-          console.error(`Service account key file not found: ${options.key}`);
-          process.exit(1);
-        }
-      }
+      const credentialsPath = resolveCredentialsPath(options.key);
+      const service = new SecretsManagerService(credentialsPath);
+      const secretNames: string[] = options.name.split(',');
+      const interactive = process.stdin.isTTY &&
+        options.fromFile === undefined && options.fromEnv === undefined && options.fromLiteral === undefined;
 
-      const service = new SecretsManagerService(options.project, credentialsPath);
-      const secretNames = options.name.split(',');
-      for (const secretName of secretNames) {
-        await service.createSecret(options.project, secretName, options.region);
+      try {
+        // A non-interactive source can only be read once, so it is shared by every name
+        const sharedValue = interactive ? undefined : await readSecretValue(options, secretNames.join(", "));
+        for (const secretName of secretNames) {
+          const value = sharedValue || await readSecretValue(options, secretName);
+          const result = await service.setSecret(options.project, secretName, options.region, value);
+          console.log(
+            result.created
+              ? `Secret ${secretName} created with version ${result.version}.`
+              : `Secret ${secretName} updated, added version ${result.version}.`,
+          );
+        }
+      } catch (error) {
+        console.error("Failed to set secret:", (error as Error).message);
+        process.exit(1);
       }
     });
 
@@ -51,11 +164,10 @@ export function createSecretsCommand(): Command {
     .description("Delete a secret")
     .requiredOption("-p, --project <projectId>", "Google Cloud Project ID")
     .requiredOption("-n, --name <secretName>", "Secret Name")
-    .requiredOption("-r, --region <region>", "Region", "us-central1")
     .option("-k, --key <path>", "Path to service account key file or 'json' for GitHub Actions")
     .action(async (options) => {
-      const service = new SecretsManagerService(options.project, options.key);
-      await service.deleteSecret(options.project, options.name, options.region);
+      const service = new SecretsManagerService(resolveCredentialsPath(options.key));
+      await service.deleteSecret(options.project, options.name);
     });
 
     secretsCommand
@@ -64,9 +176,310 @@ export function createSecretsCommand(): Command {
     .requiredOption("-p, --project <projectId>", "Google Cloud Project ID")
     .option("-k, --key <path>", "Path to service account key file or 'json' for GitHub Actions")
     .action(async (options) => {
-      const service = new SecretsManagerService(options.project, options.key);
+      const service = new SecretsManagerService(resolveCredentialsPath(options.key));
       await service.listSecrets(options.project);
     });
 
+    secretsCommand
+    .command("versions")
+    .description("List the versions of a secret and their state")
+    .requiredOption("-p, --project <projectId>", "Google Cloud Project ID")
+    .requiredOption("-n, --name <secretName>", "Secret Name")
+    .option("-k, --key <path>", "Path to service account key file or 'json' for GitHub Actions")
+    .action(async (options) => {
+      const service = new SecretsManagerService(resolveCredentialsPath(options.key));
+      try {
+        const versions = await service.listVersions(options.project, options.name);
+        console.log(formatTable(
+          ["VERSION", "STATE", "CREATED"],
+          versions.map((version) => [version.version, version.state.toLowerCase(), version.createTime || "-"]),
+        ));
+      } catch {
+        process.exit(1);
+      }
+    });
+
+    secretsCommand
+    .command("disable-version")
+    .description("Disable a version of a secret so it can no longer be accessed")
+    .requiredOption("-p, --project <projectId>", "Google Cloud Project ID")
+    .requiredOption("-n, --name <secretName>", "Secret Name")
+    .requiredOption("-v, --version <version>", "Version number")
+    .option("-k, --key <path>", "Path to service account key file or 'json' for GitHub Actions")
+    .action(async (options) => {
+      const service = new SecretsManagerService(resolveCredentialsPath(options.key));
+      try {
+        await service.disableVersion(options.project, options.name, options.version);
+      } catch {
+        process.exit(1);
+      }
+    });
+
+    secretsCommand
+    .command("destroy-version")
+    .description("Permanently destroy the payload of a version of a secret")
+    .requiredOption("-p, --project <projectId>", "Google Cloud Project ID")
+    .requiredOption("-n, --name <secretName>", "Secret Name")
+    .requiredOption("-v, --version <version>", "Version number")
+    .option("-k, --key <path>", "Path to service account key file or 'json' for GitHub Actions")
+    .option("-y, --yes", "Skip the confirmation prompt")
+    .action(async (options) => {
+      if (!options.yes) {
+        const answers = await inquirer.prompt([
+          {
+            type: "confirm",
+            name: "confirmDestroy",
+            message: `Permanently destroy version ${options.version} of secret ${options.name}?`,
+            default: false,
+          },
+        ]);
+        if (!answers.confirmDestroy) {
+          console.log("Version destruction cancelled.");
+          return;
+        }
+      }
+
+      const service = new SecretsManagerService(resolveCredentialsPath(options.key));
+      try {
+        await service.destroyVersion(options.project, options.name, options.version);
+      } catch {
+        process.exit(1);
+      }
+    });
+
+    // Shows version metadata only. The payload is written out only when asked
+    // for explicitly, and never to a terminal by default.
+    secretsCommand
+    .command("get")
+    .description("Show a secret version, or write its value with --reveal or --output-file")
+    .requiredOption("-p, --project <projectId>", "Google Cloud Project ID")
+    .requiredOption("-n, --name <secretName>", "Secret Name")
+    .option("-v, --version <version>", "Version number or 'latest'", "latest")
+    .option("-k, --key <path>", "Path to service account key file or 'json' for GitHub Actions")
+    .option("--reveal", "Write the secret value to stdout")
+    .option("--output-file <path>", "Write the secret value to a file readable only by the current user")
+    .action(async (options) => {
+      const service = new SecretsManagerService(resolveCredentialsPath(options.key));
+      try {
+        if (options.outputFile) {
+          const value = await service.accessSecretVersion(options.project, options.name, options.version);
+          fs.writeFileSync(options.outputFile, value, { mode: 0o600 });
+          console.log(`Wrote version ${options.version} of secret ${options.name} to ${options.outputFile}`);
+        } else if (options.reveal) {
+          const value = await service.accessSecretVersion(options.project, options.name, options.version);
+          fs.writeSync(process.stdout.fd, value);
+        } else {
+          const version = await service.getVersion(options.project, options.name, options.version);
+          console.log(`Secret:   ${options.name}`);
+          console.log(`Version:  ${version.version}`);
+          console.log(`State:    ${version.state.toLowerCase()}`);
+          console.log(`Created:  ${version.createTime || "-"}`);
+          console.log("Pass --reveal or --output-file to read the value.");
+        }
+      } catch {
+        process.exit(1);
+      }
+    });
+
+    secretsCommand
+    .command("keygen")
+    .description("Create a local key for encrypting secrets files")
+    .option("--secrets-key <path>", "Where to write the key", DEFAULT_LOCAL_KEY_FILE)
+    .action((options) => {
+      try {
+        const path = generateLocalKey(options.secretsKey);
+        console.log(`Created secrets key ${path}. Share it with your team out of band and never commit it.`);
+      } catch (error) {
+        console.error((error as Error).message);
+        process.exit(1);
+      }
+    });
+
+    // The encrypted file sits next to the config as secrets.<env>.enc.yaml
+    secretsCommand
+    .command("encrypt")
+    .description("Encrypt a YAML file of secret values into secrets.<env>.enc.yaml")
+    .requiredOption("-i, --input <path>", "Plaintext YAML mapping secret names to values, or '-' for stdin")
+    .option("-c, --config <path>", "Configuration file path", "cloudrun.yaml")
+    .option("-e, --env <environment>", "Target environment declared in config", "dev")
+    .option("--provider <name>", "Key provider wrapping the data key: local or gcp-kms", "local")
+    .option("--secrets-key <path>", "Local key file (defaults to CLOUDRUNIFY_SECRETS_KEY or ~/.config/cloudrunify/secrets.key)")
+    .option("--kms-key <name>", "Cloud KMS key for the gcp-kms provider")
+    .option("-k, --key <path>", "Path to service account key file or 'json' for GitHub Actions")
+    .action(async (options) => {
+      const [env] = resolveEnvironments(loadConfig(options.config), options);
+      const path = secretsFilePath(options.config, env);
+      try {
+        const keyOptions = keyProviderOptions(options);
+        const values = parseSecretValues(
+          options.input === "-" ? readStdin().toString("utf-8") : fs.readFileSync(options.input, "utf-8"),
+        );
+        const previous = fs.existsSync(path) ? await readSecretsFile(path, keyOptions) : undefined;
+        await writeSecretsFile(path, values, createKeyProvider(options.provider, keyOptions), previous);
+        console.log(`Encrypted ${Object.keys(values).length} secrets into ${path}`);
+      } catch (error) {
+        console.error(`Failed to encrypt ${path}:`, (error as Error).message);
+        process.exit(1);
+      }
+    });
+
+    secretsCommand
+    .command("decrypt")
+    .description("Decrypt secrets.<env>.enc.yaml with --reveal or --output-file")
+    .option("-c, --config <path>", "Configuration file path", "cloudrun.yaml")
+    .option("-e, --env <environment>", "Target environment declared in config", "dev")
+    .option("--secrets-key <path>", "Local key file (defaults to CLOUDRUNIFY_SECRETS_KEY or ~/.config/cloudrunify/secrets.key)")
+    .option("-k, --key <path>", "Path to service account key file or 'json' for GitHub Actions")
+    .option("--reveal", "Write the decrypted YAML to stdout")
+    .option("--output-file <path>", "Write the decrypted YAML to a file readable only by the current user")
+    .action(async (options) => {
+      const [env] = resolveEnvironments(loadConfig(options.config), options);
+      const path = secretsFilePath(options.config, env);
+      try {
+        const { values } = await readSecretsFile(path, keyProviderOptions(options));
+        if (options.outputFile) {
+          fs.writeFileSync(options.outputFile, stringify(values), { mode: 0o600 });
+          console.log(`Decrypted ${path} to ${options.outputFile}`);
+        } else if (options.reveal) {
+          process.stdout.write(stringify(values));
+        } else {
+          console.log(`${path} holds ${Object.keys(values).length} secrets: ${Object.keys(values).join(", ") || "-"}`);
+          console.log("Pass --reveal or --output-file to read the values.");
+        }
+      } catch (error) {
+        console.error(`Failed to decrypt ${path}:`, (error as Error).message);
+        process.exit(1);
+      }
+    });
+
+    // Decrypts into a private temporary file for $EDITOR and re-encrypts it,
+    // keeping the ciphertext of values that did not change
+    secretsCommand
+    .command("edit")
+    .description("Edit secrets.<env>.enc.yaml in $EDITOR")
+    .option("-c, --config <path>", "Configuration file path", "cloudrun.yaml")
+    .option("-e, --env <environment>", "Target environment declared in config", "dev")
+    .option("--provider <name>", "Key provider for a new file: local or gcp-kms", "local")
+    .option("--secrets-key <path>", "Local key file (defaults to CLOUDRUNIFY_SECRETS_KEY or ~/.config/cloudrunify/secrets.key)")
+    .option("--kms-key <name>", "Cloud KMS key for the gcp-kms provider")
+    .option("-k, --key <path>", "Path to service account key file or 'json' for GitHub Actions")
+    .action(async (options) => {
+      const [env] = resolveEnvironments(loadConfig(options.config), options);
+      const path = secretsFilePath(options.config, env);
+      const directory = fs.mkdtempSync(join(tmpdir(), "cloudrunify-"));
+      const plaintextPath = join(directory, `secrets.${env}.yaml`);
+
+      let failed = false;
+      try {
+        const keyOptions = keyProviderOptions(options);
+        let previous: EncryptedSecrets | undefined;
+        if (fs.existsSync(path)) {
+          previous = await readSecretsFile(path, keyOptions);
+        }
+        const provider = previous?.provider || createKeyProvider(options.provider, keyOptions);
+        const original = previous ? stringify(previous.values) : "# SECRET_NAME: value\n";
+        fs.writeFileSync(plaintextPath, original, { mode: 0o600 });
+
+        const editor = process.env.VISUAL || process.env.EDITOR || "vi";
+        const result = spawnSync(`${editor} "${plaintextPath}"`, { shell: true, stdio: "inherit" });
+        if (result.status !== 0) {
+          throw new Error(`${editor} exited with code ${result.status}, ${path} left unchanged`);
+        }
+
+        const edited = fs.readFileSync(plaintextPath, "utf-8");
+        if (edited === original) {
+          console.log(`No changes, ${path} left unchanged`);
+          return;
+        }
+        const values = parseSecretValues(edited);
+        await writeSecretsFile(path, values, provider, previous);
+        console.log(`Saved ${Object.keys(values).length} secrets to ${path}`);
+      } catch (error) {
+        console.error(`Failed to edit ${path}:`, (error as Error).message);
+        failed = true;
+      } finally {
+        fs.rmSync(directory, { recursive: true, force: true });
+      }
+
+      if (failed) {
+        process.exit(1);
+      }
+    });
+
+    secretsCommand
+    .command("push")
+    .description("Add the values of secrets.<env>.enc.yaml as new versions in Secret Manager")
+    .option("-c, --config <path>", "Configuration file path", "cloudrun.yaml")
+    .option("-e, --env <environment>", "Target environment declared in config", "dev")
+    .option("-k, --key <path>", "Path to service account key file or 'json' for GitHub Actions")
+    .option("--all-envs", "Push the secrets of all environments defined in config")
+    .option("--secrets-key <path>", "Local key file (defaults to CLOUDRUNIFY_SECRETS_KEY or ~/.config/cloudrunify/secrets.key)")
+    .action(async (options) => {
+      const baseConfig = loadConfig(options.config);
+      const credentialsPath = resolveCredentialsPath(options.key);
+
+      let failed = false;
+      for (const env of resolveEnvironments(baseConfig, options)) {
+        const envConfig = ConfigParser.getConfigForEnv(baseConfig, env);
+        const path = secretsFilePath(options.config, env);
+        if (!fs.existsSync(path)) {
+          console.log(`\nNo ${path} for ${env} environment, skipping`);
+          continue;
+        }
+
+        try {
+          const { values } = await readSecretsFile(path, keyProviderOptions(options));
+          const service = new SecretsManagerService(credentialsPath);
+          const results = await service.pushSecrets(envConfig.project_id, envConfig.region, values);
+          console.log(`\nEnvironment: ${env}`);
+          console.log(formatTable(
+            ["SECRET", "STATUS", "VERSION"],
+            results.map((result) => [result.name, result.status, result.version || "-"]),
+          ));
+        } catch (error) {
+          console.error(`Failed to push secrets of ${env} environment:`, (error as Error).message);
+          failed = true;
+        }
+      }
+
+      if (failed) {
+        process.exit(1);
+      }
+    });
+
+    secretsCommand
+    .command("sync")
+    .description("Check that the secrets referenced in config exist and the service can read them")
+    .option("-c, --config <path>", "Configuration file path", "cloudrun.yaml")
+    .option("-e, --env <environment>", "Target environment declared in config", "dev")
+    .option("-k, --key <path>", "Path to service account key file or 'json' for GitHub Actions")
+    .option("--all-envs", "Sync the secrets of all environments defined in config")
+    .option("--dry-run", "Report what would change without changing anything")
+    .option("--secrets-key <path>", "Local key file for secrets.<env>.enc.yaml")
+    .action(async (options) => {
+      const baseConfig = loadConfig(options.config);
+      const credentialsPath = resolveCredentialsPath(options.key);
+
+      let failed = false;
+      for (const env of resolveEnvironments(baseConfig, options)) {
+        const envConfig = ConfigParser.getConfigForEnv(baseConfig, env);
+        const service = new SecretsManagerService(credentialsPath);
+
+        console.log(`\nEnvironment: ${env}`);
+        const source = secretsFileSource(secretsFilePath(options.config, env), keyProviderOptions(options));
+        const results = await service.syncSecrets(envConfig, { source, dryRun: options.dryRun });
+        if (results.length === 0) {
+          console.log("No secrets referenced in config.");
+          continue;
+        }
+        printSecretSync(results, options.dryRun);
+        failed = failed || failedSecrets(results).length > 0;
+      }
+
+      if (failed) {
+        process.exit(1);
+      }
+    });
+
   return secretsCommand;
 }
@@ -0,0 +1,97 @@
+import { Command, Option } from "npm:commander";
+import { stringify } from "npm:yaml";
+import { ConfigParser, Environment } from "../config/parser.ts";
+import { CloudRunService, ServiceStatus } from "../services/cloudrun.ts";
+import { resolveEnvironments } from "../utils/environments.ts";
+import { loadServiceConfig } from "../utils/config.ts";
+import { resolveCredentialsPath } from "../utils/credentials.ts";
+import { parsePositiveInteger } from "../utils/options.ts";
+import { formatTable } from "../utils/table.ts";
+import * as process from "node:process";
+
+function printStatusTable(env: Environment, status: ServiceStatus) {
+  console.log(`\nEnvironment:      ${env}`);
+  console.log(`Service:          ${status.name}`);
+  console.log(`URL:              ${status.url || "-"}`);
+  console.log(`Latest ready:     ${status.latestReadyRevision || "-"}`);
+  console.log(`Latest created:   ${status.latestCreatedRevision || "-"}`);
+  console.log(`Invokers:         ${status.invokers.join(", ") || "-"}`);
+
+  console.log("\nTraffic");
+  console.log(formatTable(
+    ["REVISION", "PERCENT", "TAG", "URL"],
+    status.traffic.map((target) => [target.revision, `${target.percent}%`, target.tag || "-", target.url || "-"]),
+  ));
+
+  console.log("\nProbes");
+  console.log(formatTable(
+    ["CONTAINER", "PROBE", "CHECK"],
+    status.probes.map((probe) => [probe.container || "-", probe.kind, probe.check]),
+  ));
+
+  console.log("\nRevisions");
+  console.log(formatTable(
+    ["NAME", "IMAGE", "DIGEST", "CREATED", "SCALING", "READY"],
+    status.revisions.map((revision) => {
+      const failed = revision.conditions.find((condition) => condition.state === "CONDITION_FAILED");
+      return [
+        revision.name,
+        revision.image.split("@")[0],
+        revision.digest ? revision.digest.replace(/^sha256:/, "").slice(0, 12) : "-",
+        revision.createTime || "-",
+        `${revision.scaling.min_instances ?? 0}-${revision.scaling.max_instances ?? "auto"}`,
+        failed ? `${failed.type}: ${failed.message || "failed"}` : revision.ready.replace(/^CONDITION_/, "").toLowerCase(),
+      ];
+    }),
+  ));
+}
+
+export function createStatusCommand(): Command {
+  return new Command("status")
+    .description("Show the URL, traffic split, revisions and invokers of the deployed service")
+    .option("-c, --config <path>", "Configuration file path", "cloudrun.yaml")
+    .option("-e, --env <environment>", "Target environment declared in config", "dev")
+    .option("-k, --key <path>", "Path to service account key file or 'json' for GitHub Actions")
+    .option("--all-envs", "Show the status of all environments defined in config")
+    .addOption(new Option("-o, --output <format>", "Output format").choices(["table", "json", "yaml"]).default("table"))
+    .addOption(
+      new Option("--revisions <count>", "Number of most recent revisions to list")
+        .default(10)
+        .argParser(parsePositiveInteger),
+    )
+    .action(async (options) => {
+      const baseConfig = loadServiceConfig(options.config, "status");
+      const credentialsPath = resolveCredentialsPath(options.key);
+
+      // Determine which environments to process
+      const envsToProcess = resolveEnvironments(baseConfig, options);
+
+      const statuses: Array<{ environment: Environment } & ServiceStatus> = [];
+      let failed = false;
+      for (const env of envsToProcess) {
+        const envConfig = ConfigParser.getConfigForEnv(baseConfig, env);
+        const service = new CloudRunService(credentialsPath);
+
+        try {
+          const status = await service.getStatus(envConfig, options.revisions);
+          if (options.output === "table") {
+            printStatusTable(env, status);
+          }
+          statuses.push({ environment: env, ...status });
+        } catch (error) {
+          console.error(`Failed to get status of ${env} environment:`, error);
+          failed = true;
+        }
+      }
+
+      if (options.output === "json") {
+        console.log(JSON.stringify(statuses, null, 2));
+      } else if (options.output === "yaml") {
+        console.log(stringify(statuses));
+      }
+
+      if (failed) {
+        process.exit(1);
+      }
+    });
+}
@@ -0,0 +1,43 @@
+import { Command } from "npm:commander";
+import { ConfigParser, ConfigValidationError } from "../config/parser.ts";
+import { InterpolationError } from "../config/interpolate.ts";
+import * as process from "node:process";
+
+export function createValidateCommand(): Command {
+  return new Command("validate")
+    .description("Validate the configuration file without calling Google Cloud")
+    .option("-c, --config <path>", "Configuration file path", "cloudrun.yaml")
+    .action((options) => {
+      try {
+        const config = ConfigParser.load(options.config);
+        const envs = ConfigParser.getEnvironments(config);
+        // Resolves every environment's ${...} references, so one that can't
+        // be resolved fails here rather than at deploy time
+        const unresolved: InterpolationError[] = [];
+        for (const env of envs) {
+          try {
+            ConfigParser.getConfigForEnv(config, env);
+          } catch (error) {
+            if (!(error instanceof InterpolationError)) {
+              throw error;
+            }
+            unresolved.push(error);
+          }
+        }
+        if (unresolved.length > 0) {
+          unresolved.forEach((error) => console.error(error.message));
+          console.error(`\n${unresolved.reduce((count, error) => count + error.issues.length, 0)} problem(s) found`);
+          process.exit(1);
+        }
+        console.log(`${options.config} is valid (environments: ${envs.join(", ")})`);
+      } catch (error) {
+        if (error instanceof ConfigValidationError) {
+          console.error(error.message);
+          console.error(`\n${error.issues.length} problem(s) found`);
+        } else {
+          console.error(`Failed to read configuration ${options.config}:`, error);
+        }
+        process.exit(1);
+      }
+    });
+}
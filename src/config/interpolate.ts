@@ -0,0 +1,119 @@
+import * as process from "node:process";
+import { ValidationIssue } from "./parser.ts";
+import { readGitInfo } from "../utils/git.ts";
+
+// Matches ${NAME}, ${NAME:-default} and the $${...} escape for a literal ${...}
+const REFERENCE_PATTERN = /(\$?)\$\{([^}]*)\}/g;
+
+export class InterpolationError extends Error {
+  constructor(public env: string, public issues: ValidationIssue[], heading = "Unresolved references") {
+    super(
+      `${heading} in environment ${env}:\n${
+        issues.map((issue) => `${issue.path}: ${issue.message}`).join("\n")
+      }`,
+    );
+    this.name = "InterpolationError";
+  }
+}
+
+export interface InterpolationContext {
+  env: string;
+}
+
+function lookupConfig(config: Record<string, unknown>, path: string): unknown {
+  let current: unknown = config;
+  for (const segment of path.split(".")) {
+    if (typeof current !== "object" || current === null || !(segment in current)) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+// Expands references in every string value of the config:
+//   ${env.name}               the environment being processed
+//   ${git.sha}, ${git.short_sha}, ${git.branch}
+//   ${project_id}, ${service.name}, ...  any scalar value of the merged config
+//   ${VAR}, ${VAR:-default}   process environment variables
+// Config values win over environment variables of the same name. Anything
+// left unresolved is reported instead of being deployed literally.
+export function interpolateConfig<T extends object>(config: T, context: InterpolationContext): T {
+  const issues: ValidationIssue[] = [];
+
+  const resolve = (expression: string, path: string, stack: string[]): string | undefined => {
+    const separator = expression.indexOf(":-");
+    const name = (separator === -1 ? expression : expression.slice(0, separator)).trim();
+    const fallback = separator === -1 ? undefined : expression.slice(separator + 2);
+
+    if (name === "env.name") {
+      return context.env;
+    }
+    if (name.startsWith("git.")) {
+      const gitInfo = readGitInfo();
+      const key = name.slice(4);
+      const value = gitInfo && ["sha", "short_sha", "branch"].includes(key)
+        ? gitInfo[key as "sha" | "short_sha" | "branch"]
+        : undefined;
+      if (value === undefined && fallback === undefined) {
+        issues.push({ path, message: `\${${name}} could not be read from git` });
+      }
+      return value ?? fallback;
+    }
+
+    const configValue = lookupConfig(config as Record<string, unknown>, name);
+    if (configValue !== undefined && name.split(".")[0] !== "environments") {
+      if (typeof configValue === "object" && configValue !== null) {
+        issues.push({ path, message: `\${${name}} refers to a section, not a value` });
+        return undefined;
+      }
+      if (stack.includes(name)) {
+        issues.push({ path, message: `circular reference ${[...stack, name].join(" -> ")}` });
+        return undefined;
+      }
+      return expand(String(configValue), path, [...stack, name]);
+    }
+
+    const envValue = process.env[name];
+    if (envValue !== undefined) {
+      return envValue;
+    }
+    if (fallback !== undefined) {
+      return expand(fallback, path, stack);
+    }
+    issues.push({ path, message: `\${${name}} is not set in the environment or the config` });
+    return undefined;
+  };
+
+  const expand = (value: string, path: string, stack: string[]): string =>
+    value.replace(REFERENCE_PATTERN, (match, escape: string, expression: string) => {
+      if (escape) {
+        return match.slice(1);
+      }
+      return resolve(expression, path, stack) ?? match;
+    });
+
+  const walk = (value: unknown, path: string): unknown => {
+    if (typeof value === "string") {
+      return expand(value, path, []);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item, index) => walk(item, `${path}[${index}]`));
+    }
+    if (typeof value === "object" && value !== null) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, walk(item, path ? `${path}.${key}` : key)]),
+      );
+    }
+    return value;
+  };
+
+  // The raw overrides are already merged in, so only the resolved sections are expanded
+  const { environments, ...sections } = config as Record<string, unknown>;
+  const interpolated = { ...(walk(sections, "") as Record<string, unknown>), environments } as unknown as T;
+
+  if (issues.length > 0) {
+    throw new InterpolationError(context.env, issues);
+  }
+  return interpolated;
+}
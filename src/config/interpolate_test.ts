@@ -0,0 +1,91 @@
+import { assertEquals, assertInstanceOf, assertThrows } from "@std/assert";
+import { interpolateConfig, InterpolationError } from "./interpolate.ts";
+import { CloudRunConfig, ConfigParser } from "./parser.ts";
+
+const VARIABLE = "CLOUDRUN_INTERPOLATE_TEST_TAG";
+
+// Runs `run` with VARIABLE set to `value`, or unset when it's undefined
+function withVariable<T>(value: string | undefined, run: () => T): T {
+  const previous = Deno.env.get(VARIABLE);
+  if (value === undefined) {
+    Deno.env.delete(VARIABLE);
+  } else {
+    Deno.env.set(VARIABLE, value);
+  }
+  try {
+    return run();
+  } finally {
+    if (previous === undefined) {
+      Deno.env.delete(VARIABLE);
+    } else {
+      Deno.env.set(VARIABLE, previous);
+    }
+  }
+}
+
+Deno.test("interpolateConfig reports a variable that is set nowhere with its path", () => {
+  const error = withVariable(undefined, () =>
+    assertThrows(
+      () => interpolateConfig({ container: { image: `app:\${${VARIABLE}}` } }, { env: "dev" }),
+      InterpolationError,
+    )
+  );
+
+  assertEquals(error.env, "dev");
+  assertEquals(error.issues, [
+    { path: "container.image", message: `\${${VARIABLE}} is not set in the environment or the config` },
+  ]);
+});
+
+Deno.test("interpolateConfig uses a :- default only when the variable is unset", () => {
+  const config = { container: { image: `app:\${${VARIABLE}:-latest}` } };
+
+  assertEquals(withVariable(undefined, () => interpolateConfig(config, { env: "dev" })).container.image, "app:latest");
+  assertEquals(withVariable("1.2.3", () => interpolateConfig(config, { env: "dev" })).container.image, "app:1.2.3");
+});
+
+Deno.test("interpolateConfig resolves config values and the environment name and keeps escaped references", () => {
+  const config = {
+    project_id: "my-project",
+    service: { name: "api-${env.name}" },
+    container: { image: "europe-docker.pkg.dev/${project_id}/apps/${service.name}", command: ["echo", "$${HOME}"] },
+  };
+
+  const resolved = interpolateConfig(config, { env: "prod" });
+
+  assertEquals(resolved.service.name, "api-prod");
+  assertEquals(resolved.container.image, "europe-docker.pkg.dev/my-project/apps/api-prod");
+  assertEquals(resolved.container.command, ["echo", "${HOME}"]);
+});
+
+Deno.test("interpolateConfig reports circular references and references to a section", () => {
+  const config = { a: "${b}", b: "${a}", c: "${service}", service: { name: "api" } };
+
+  const error = assertThrows(() => interpolateConfig(config, { env: "dev" }), InterpolationError);
+
+  assertEquals(error.issues.map((issue) => issue.message), [
+    "circular reference b -> a -> b",
+    "circular reference a -> b -> a",
+    "${service} refers to a section, not a value",
+  ]);
+});
+
+Deno.test("getConfigForEnv checks resolved values against the schema", () => {
+  const config = {
+    version: "1",
+    project_id: "my-project",
+    region: "europe-west1",
+    service: { name: "api", allow_unauthenticated: false },
+    container: {
+      image: "europe-docker.pkg.dev/my-project/apps/api",
+      port: 8080,
+      resources: { cpu: "1", memory: `\${${VARIABLE}}` },
+    },
+    environments: { dev: {} },
+  } as unknown as CloudRunConfig;
+
+  const error = withVariable("lots", () => assertThrows(() => ConfigParser.getConfigForEnv(config, "dev")));
+
+  assertInstanceOf(error, InterpolationError);
+  assertEquals(error.issues.map((issue) => issue.path), ["container.resources.memory"]);
+});
@@ -1,166 +1,1159 @@
-import { parse, stringify } from "npm:yaml";
+import { parse, parseDocument, isMap, isNode, isScalar, Document, LineCounter } from "npm:yaml";
 import { readFileSync } from "node:fs";
+import { Ajv, ErrorObject } from "npm:ajv";
+import { CONFIG_SCHEMA } from "./schema.ts";
+import { interpolateConfig, InterpolationError } from "./interpolate.ts";
+import { formatImage, parseImage, TagStrategy } from "../utils/image.ts";
+import { formatDuration, parseDuration } from "../utils/duration.ts";
 
-export interface EnvironmentConfig {
-  project_id: string;
-  region: string;
+// Cloud Run's maximum request timeout, and task timeout of jobs
+const MAX_REQUEST_TIMEOUT = 60 * 60 * 1000;
+const MAX_TASK_TIMEOUT = 168 * 60 * 60 * 1000;
+const DURATION_PATTERN = /^\d+(\.\d+)?(ms|s|m|h|d)?$/;
+
+// Cloud Run's defaults, filled in when describing probes so that a config
+// leaving them unset doesn't differ from what the API returns
+export const PROBE_DEFAULTS = {
+  initial_delay_seconds: 0,
+  period_seconds: 10,
+  timeout_seconds: 1,
+  failure_threshold: 3,
+};
+
+// Upper bounds in seconds Cloud Run accepts for each kind of probe
+const PROBE_LIMITS: Record<ProbeKind, { initialDelay: number; period: number }> = {
+  startup: { initialDelay: 240, period: 240 },
+  liveness: { initialDelay: 3600, period: 3600 },
+};
+
+type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends Array<unknown> ? T[K] : T[K] extends object ? DeepPartial<T[K]> : T[K];
+};
+
+// Per-environment overrides. Any part of the base config can be overridden and
+// is deep-merged onto it by getConfigForEnv; project_id and region fall back to
+// the top-level values when omitted.
+export type EnvironmentConfig = DeepPartial<Omit<CloudRunConfig, "version" | "kind" | "environments">> & {
+  // Appended to service.name for this environment, defaults to `-<env>`
+  service_name_suffix?: string;
+};
+
+// Arrays merged entry by entry on the given key. Every other array in an
+// override (e.g. traffic) replaces the base array as a whole.
+const KEYED_ARRAYS: Record<string, string> = {
+  "container.env_vars": "name",
+  "containers": "name",
+  "containers[].env_vars": "name",
+  "iam.bindings": "role",
+  "load_balancer.ssl_certificates": "name",
+  "schedules": "name",
+  "triggers.eventarc": "name",
+  "triggers.pubsub": "name",
+  "secrets": "name",
+  "volumes": "name",
+};
+
+// Keyed arrays whose override entries are deep-merged onto the base entry
+// instead of replacing it, so an environment can change just a sidecar's image
+const DEEP_MERGED_ENTRIES = new Set(["containers"]);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function mergeKeyedArray(base: unknown[], override: unknown[], key: string, path: string): unknown[] {
+  const merged = [...base];
+  for (const entry of override) {
+    const index = merged.findIndex((existing) =>
+      isPlainObject(existing) && isPlainObject(entry) && existing[key] === entry[key]
+    );
+    if (index === -1) {
+      merged.push(entry);
+    } else if (DEEP_MERGED_ENTRIES.has(path)) {
+      merged[index] = deepMerge(merged[index], entry, `${path}[]`);
+    } else {
+      // An override entry replaces the base entry, so switching an env var
+      // from `value` to `valueFrom` doesn't leave both behind
+      merged[index] = entry;
+    }
+  }
+  return merged;
+}
+
+function deepMerge(base: unknown, override: unknown, path = ""): unknown {
+  if (override === undefined) {
+    return base;
+  }
+  if (Array.isArray(base) && Array.isArray(override) && KEYED_ARRAYS[path]) {
+    return mergeKeyedArray(base, override, KEYED_ARRAYS[path], path);
+  }
+  if (isPlainObject(base) && isPlainObject(override)) {
+    const merged: Record<string, unknown> = { ...base };
+    for (const [key, value] of Object.entries(override)) {
+      merged[key] = deepMerge(base[key], value, path ? `${path}.${key}` : key);
+    }
+    return merged;
+  }
+  return override;
+}
+
+export interface ValidationIssue {
+  path: string; // e.g. container.env_vars[2].valueFrom
+  message: string;
+  line?: number;
+  column?: number;
+}
+
+export class ConfigValidationError extends Error {
+  constructor(public file: string, public issues: ValidationIssue[]) {
+    super(`Invalid configuration in ${file}:\n${issues.map((issue) => ConfigParser.formatIssue(issue, file)).join("\n")}`);
+    this.name = "ConfigValidationError";
+  }
+}
+
+type Segment = string | number;
+
+const ajv = new Ajv({ allErrors: true, verbose: true, strictTypes: false });
+const validateSchema = ajv.compile<CloudRunConfig>(CONFIG_SCHEMA);
+
+function formatPath(segments: Segment[]): string {
+  return segments
+    .map((segment, index) => typeof segment === "number" ? `[${segment}]` : index === 0 ? segment : `.${segment}`)
+    .join("");
+}
+
+// Maps config paths back to positions in the YAML source
+class IssueLocator {
+  private doc?: Document;
+  private lineCounter = new LineCounter();
+
+  constructor(source?: string) {
+    if (source !== undefined) {
+      this.doc = parseDocument(source, { lineCounter: this.lineCounter });
+    }
+  }
+
+  issue(segments: Segment[], message: string, key?: string): ValidationIssue {
+    return { path: formatPath(segments), message, ...this.locate(segments, key) };
+  }
+
+  // Position of the node at `segments` (or of `key` inside it), falling back
+  // to the closest ancestor that exists in the source
+  private locate(segments: Segment[], key?: string): { line: number; column: number } | undefined {
+    if (!this.doc) {
+      return undefined;
+    }
+    for (let depth = segments.length; depth >= 0; depth--) {
+      const node = depth === 0 ? this.doc.contents : this.doc.getIn(segments.slice(0, depth), true);
+      if (!isNode(node)) {
+        continue;
+      }
+      let range = node.range;
+      if (key !== undefined && depth === segments.length && isMap(node)) {
+        const pair = node.items.find((item) => isScalar(item.key) && item.key.value === key);
+        if (pair && isNode(pair.key)) {
+          range = pair.key.range;
+        }
+      }
+      if (range) {
+        const { line, col } = this.lineCounter.linePos(range[0]);
+        return { line, column: col };
+      }
+    }
+    return undefined;
+  }
+}
+
+function levenshtein(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length];
+}
+
+function suggestKey(key: string, candidates: string[]): string | undefined {
+  let best: string | undefined;
+  let bestDistance = Math.max(2, Math.floor(key.length / 3)) + 1;
+  for (const candidate of candidates) {
+    const distance = levenshtein(key, candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+// The schema errors of a config. With `skipReferences`, pattern errors of
+// values still holding ${...} references are left out.
+function schemaIssues(config: unknown, locator: IssueLocator, skipReferences = false): ValidationIssue[] {
+  if (validateSchema(config)) {
+    return [];
+  }
+  return (validateSchema.errors || [])
+    // Errors from inside propertyNames are reported by the propertyNames error itself
+    .filter((error) => error.propertyName === undefined || error.keyword === "propertyNames")
+    .filter((error) =>
+      !(skipReferences && error.keyword === "pattern" && typeof error.data === "string" && error.data.includes("${"))
+    )
+    .map((error) => schemaIssue(error, locator));
+}
+
+function schemaIssue(error: ErrorObject, locator: IssueLocator): ValidationIssue {
+  const segments: Segment[] = error.instancePath
+    .split("/")
+    .slice(1)
+    .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"))
+    .map((segment) => /^\d+$/.test(segment) ? Number(segment) : segment);
+
+  switch (error.keyword) {
+    case "required":
+      return locator.issue(segments, `missing ${error.params.missingProperty}`);
+    case "additionalProperties": {
+      const key = error.params.additionalProperty as string;
+      const suggestion = suggestKey(key, Object.keys(error.parentSchema?.properties || {}));
+      return locator.issue(
+        segments,
+        `unknown key '${key}'${suggestion ? ` (did you mean '${suggestion}'?)` : ""}`,
+        key,
+      );
+    }
+    case "propertyNames":
+      return locator.issue(segments, `invalid name '${error.params.propertyName}'`, error.params.propertyName);
+    case "type":
+      return locator.issue(segments, `must be ${String(error.params.type).replace(",", " or ")}`);
+    case "enum":
+      return locator.issue(segments, `must be one of ${(error.params.allowedValues as unknown[]).join(", ")}`);
+    default:
+      return locator.issue(segments, error.message || "is invalid");
+  }
+}
+
+// Name of an entry under `environments`, e.g. dev, qa or prod-eu
+export type Environment = string;
+
+export type EnvVarConfig =
+  | { name: string; value: string } // Regular environment variable
+  | { name: string; valueFrom: { secretKeyRef: { name: string; key?: string } } }; // Secret reference, key is the version
+
+export type IngressSetting = "all" | "internal" | "internal-and-cloud-load-balancing";
+export type VpcEgressSetting = "all-traffic" | "private-ranges-only";
+
+export type ProbeKind = "startup" | "liveness";
+
+export interface ProbeConfig {
+  // Exactly one of http_get, tcp_socket and grpc
+  http_get?: { path?: string; port?: number };
+  tcp_socket?: { port?: number };
+  grpc?: { port?: number; service?: string };
+  initial_delay_seconds?: number;
+  period_seconds?: number;
+  timeout_seconds?: number;
+  failure_threshold?: number;
+}
+
+export interface ContainerResources {
+  cpu: string;
+  memory: string;
+  cpu_idle?: boolean; // false keeps CPU allocated outside of requests
+  startup_cpu_boost?: boolean; // Extra CPU while the container starts
+}
+
+export type VolumeKind = "secret" | "gcs" | "nfs" | "in_memory" | "cloudsql";
+
+export const VOLUME_KINDS: VolumeKind[] = ["secret", "gcs", "nfs", "in_memory", "cloudsql"];
+
+// An entry of `volumes`, setting exactly one of the volume kinds
+export interface VolumeConfig {
+  name: string;
+  path?: string; // Mount path in the container with the port, sidecars use volume_mounts
+  secret?: {
+    secret: string; // Short name or projects/<project>/secrets/<name>
+    default_mode?: number;
+    items?: Array<{ path: string; version?: string | number; mode?: number }>; // Defaults to the latest version at the secret's name
+  };
+  gcs?: { bucket: string; read_only?: boolean; mount_options?: string[] };
+  nfs?: { server: string; path: string; read_only?: boolean };
+  in_memory?: { size_limit?: string } | null; // Counts against the container memory
+  cloudsql?: { instances: string[] }; // Connection names, project:region:instance
+}
+
+// Name of the volume a `secrets` entry is mounted from
+export function secretVolumeName(secret: string): string {
+  const name = secret.split("/").pop()!.toLowerCase().replace(/[^a-z0-9-]/g, "-");
+  return name.replace(/^-+|-+$/g, "").slice(0, 63) || "secret";
+}
+
+// SSL certificate of the HTTPS proxy. With `domains` it is Google-managed,
+// with `certificate` and `private_key` (PEM file paths) self-managed, and
+// with neither it refers to an existing certificate.
+export interface SslCertificateConfig {
+  name: string;
+  domains?: string[];
+  certificate?: string;
+  private_key?: string;
+}
+
+// Routes `hosts` to a cloudrunify service in the same project and region,
+// with `path_rules` sending some paths to other services
+export interface HostRuleConfig {
+  hosts: string[];
+  service: string;
+  path_rules?: Array<{ paths: string[]; service: string }>;
+}
+
+export type CdnCacheMode = "CACHE_ALL_STATIC" | "USE_ORIGIN_HEADERS" | "FORCE_CACHE_ALL";
+
+export interface CdnConfig {
+  cache_mode?: CdnCacheMode;
+  default_ttl?: string;
+  max_ttl?: string;
+  client_ttl?: string;
+}
+
+// An entry of `containers`. Exactly one entry sets `port` and receives the
+// requests, the others are sidecars.
+export interface ContainerConfig {
+  name?: string; // Required in `containers`
+  image: string;
+  port?: number;
+  command?: string[];
+  args?: string[];
+  env_vars?: EnvVarConfig[];
+  resources?: ContainerResources;
+  volume_mounts?: Array<{ name: string; path: string }>; // Names of `volumes` or `secrets` entries
+  depends_on?: string[]; // Containers that must start first
+  probes?: {
+    startup?: ProbeConfig;
+    liveness?: ProbeConfig;
+  };
+  build?: CloudRunConfig["build"]; // Built and pushed by `package`, on top of the top-level build settings
+}
+
+export type WorkloadKind = "service" | "job";
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE" | "HEAD" | "OPTIONS";
+
+// A Cloud Scheduler job calling the service, or running the job, on a cron
+export interface ScheduleConfig {
+  name: string;
+  cron: string; // unix-cron, e.g. "0 3 * * *"
+  time_zone?: string; // IANA name, defaults to UTC
+  path?: string; // Services only: path on the service URL, defaults to /
+  method?: HttpMethod; // Services only, defaults to POST
+  body?: string | Record<string, unknown>; // Objects are sent as JSON
+  headers?: Record<string, string>;
+  service_account?: string; // Signs an OIDC token for services, an OAuth token for jobs
+  attempt_deadline?: string;
+  retry?: {
+    count?: number;
+    max_retry_duration?: string;
+    min_backoff?: string;
+    max_backoff?: string;
+    max_doublings?: number;
+  };
+  paused?: boolean;
+}
+
+// A push subscription delivering a topic's messages to a path of the service
+export interface PubSubTriggerConfig {
+  name: string;
+  topic: string; // Topic ID in the project, or projects/<project>/topics/<topic>
+  path?: string; // Defaults to /
+  ack_deadline?: string; // 10s to 600s, defaults to 10s
+  dead_letter_topic?: string;
+  max_delivery_attempts?: number; // Before a message goes to the dead-letter topic, defaults to 5
+  filter?: string; // Pub/Sub filter on message attributes
+  service_account: string; // Push identity, signs the OIDC token
+}
+
+// An Eventarc trigger routing events of a type to a path of the service
+export interface EventarcTriggerConfig {
+  name: string;
+  event_type: string; // e.g. google.cloud.storage.object.v1.finalized
+  filters?: Record<string, string>; // Other CloudEvents attributes to match, e.g. bucket
+  path?: string; // Defaults to /
+  service_account: string; // Identity the events are delivered with
+}
+
+// Settings of a Cloud Run Job's executions and tasks
+export interface JobConfig {
+  task_count?: number; // Tasks per execution, defaults to 1
+  parallelism?: number; // Tasks running at once, defaults to as many as possible
+  max_retries?: number; // Retries of a failed task, defaults to 3
+  task_timeout?: string; // Per task attempt, e.g. "30m", at most 168h
 }
 
-export type Environment = 'dev' | 'staging' | 'prod';
 export interface CloudRunConfig {
   version: string;
+  kind?: WorkloadKind; // Defaults to service
   project_id: string;
   region: string;
-  environments: {
-    dev: EnvironmentConfig;
-    staging: EnvironmentConfig;
-    prod: EnvironmentConfig;
-  };
+  environments: Record<Environment, EnvironmentConfig>;
+  // With kind: job, the job's name, service account, execution environment,
+  // encryption key, labels, annotations and VPC access
   service: {
     name: string;
-    allow_unauthenticated: boolean;
+    allow_unauthenticated: boolean; // Required for services
     service_account?: string;
+    ingress?: IngressSetting; // Defaults to all
+    timeout?: string; // Request timeout, e.g. "300s", at most 1h
+    execution_environment?: "gen1" | "gen2";
+    session_affinity?: boolean;
+    max_instance_request_concurrency?: number; // Requests per instance, defaults to 80
+    encryption_key?: string; // Cloud KMS key for the image (CMEK), projects/.../cryptoKeys/...
+    labels?: Record<string, string>; // Set on the service and its revisions
+    annotations?: Record<string, string>;
+    vpc_access?: {
+      // Either a Serverless VPC Access connector or direct VPC egress. null
+      // unsets a base value in an environment override.
+      connector?: string | null;
+      network?: string | null;
+      subnet?: string | null;
+      network_tags?: string[];
+      egress?: VpcEgressSetting; // Defaults to private-ranges-only
+    };
   };
-  container: {
-    image: string;
+  // The container receiving requests. With `containers`, getConfigForEnv
+  // points it at the entry that sets `port`.
+  container: ContainerConfig & {
     port: number;
-    env_vars: Array<
-      | { name: string; value: string } // Regular environment variable
-      | { name: string; valueFrom: { secretKeyRef: { name: string } } } // Secret reference
-    >;
-    resources: {
-      cpu: string;
-      memory: string;
-    };
+    env_vars: EnvVarConfig[];
+    resources: ContainerResources;
     scaling?: {
       min_instances: number;
       max_instances: number;
-      concurrency: number;
+      concurrency?: number; // Deprecated, use service.max_instance_request_concurrency
     };
   };
-  secrets: Array<{ name: string; version: string; mount_path?: string }>;
-  volumes?: Array<{ name: string; path: string; type: string; bucket?: string }>;
+  containers?: Array<ContainerConfig & { name: string; scaling?: CloudRunConfig["container"]["scaling"] }>; // Instead of `container`, for sidecars
+  build?: {
+    builder?: "docker" | "cloudbuild" | "pack"; // Defaults to docker
+    dockerfile?: string; // Relative to the build context
+    context?: string;
+    build_args?: Record<string, string>;
+    target?: string; // Multi-stage build target
+    platform?: string; // Defaults to linux/amd64 for Docker builds
+    pack_builder?: string; // Buildpacks builder image
+    tag_strategy?: TagStrategy; // Immutable tag pushed by package, defaults to git-sha
+  };
+  secrets: Array<{ name: string; version?: string | number; mount_path?: string }>; // version defaults to latest
+  volumes?: VolumeConfig[];
+  iam?: {
+    invokers?: string[]; // Members allowed to call the service, e.g. serviceAccount:... or group:...
+    bindings?: Array<{ role: string; members: string[] }>; // Other roles on the service
+    authoritative?: boolean; // Remove members and roles the config doesn't list
+  };
+  job?: JobConfig; // Only with kind: job
+  schedules?: ScheduleConfig[];
+  triggers?: {
+    pubsub?: PubSubTriggerConfig[];
+    eventarc?: EventarcTriggerConfig[];
+  };
+  // Hostnames served by the service: Cloud Run domain mappings, or with a
+  // load_balancer, a Google-managed certificate on its HTTPS proxy
   custom_domain?: {
-    domain: string;
-    certificate: string;
+    domain?: string;
+    domains?: string[]; // More hostnames of the same service
+    certificate?: string; // Load balancer certificate, defaults to <service>-domains-cert
+    certificate_timeout?: string; // How long deploy waits for the certificate, "0s" to not wait
   };
+  // External Application Load Balancer in front of the service. Resource
+  // names default to <name or service name>-url-map, -target-proxy,
+  // -forwarding-rule and -ip.
   load_balancer?: {
-    name: string; // Name of the load balancer
+    name?: string; // Prefix of the default resource names
+    neg?: string; // Serverless NEG, defaults to <service>-neg
     backend_service?: {
       name: string;
-      existing: boolean;
+      existing?: boolean; // Attach to the existing load balancer's url_map instead of creating one
+    };
+    url_map?: string;
+    target_proxy?: string;
+    forwarding_rule?: string;
+    address?: string; // Global static IP address
+    ssl_certificates?: SslCertificateConfig[]; // Adds an HTTPS proxy and forwarding rule on port 443
+    https_proxy?: string;
+    https_forwarding_rule?: string;
+    https_redirect?: boolean; // Port 80 redirects to HTTPS instead of serving traffic
+    redirect_url_map?: string;
+    host_rules?: HostRuleConfig[];
+    security_policy?: string; // Cloud Armor policy name or path
+    cdn?: boolean | CdnConfig;
+  };
+  traffic?: Array<{ revision?: string; percent: number; tag?: string }>; // New traffic configuration
+  rollout?: {
+    steps: number[]; // Percent of traffic on the new revision at each step, ending at 100
+    interval?: string; // Wait between steps, e.g. "30s" or "5m"
+    health_check?: {
+      url?: string; // Absolute URL, defaults to the canary tag URL of the new revision
+      path?: string; // Path on the canary tag URL
+      expected_status?: number; // Defaults to any 2xx status
+      timeout?: string;
     };
-  }; // New load balancer configuration
-  traffic?: Array<{ revision: string; percent: number; tag?: string }>; // New traffic configuration
+  };
 }
 
 export class ConfigParser {
-  static parse(path: string): CloudRunConfig {
+  // Reads, parses and validates a config file, throwing ConfigValidationError
+  // with every problem found.
+  static load(path: string): CloudRunConfig {
     const content = readFileSync(path, "utf-8");
-    return parse(content) as CloudRunConfig;
+    const config = parse(content) as CloudRunConfig;
+    const issues = this.validate(config, content);
+    if (issues.length > 0) {
+      throw new ConfigValidationError(path, issues);
+    }
+    return config;
+  }
+
+  // Checks the config against CONFIG_SCHEMA plus the cross-field rules the
+  // schema can't express. Pass the YAML source to get line/column positions.
+  static validate(config: CloudRunConfig, source?: string): ValidationIssue[] {
+    const locator = new IssueLocator(source);
+    const issues: ValidationIssue[] = [];
+
+    // Formats of values with ${...} references are checked by getConfigForEnv
+    // once they are expanded
+    issues.push(...schemaIssues(config, locator, true));
+
+    if (typeof config !== "object" || config === null) {
+      return issues;
+    }
+
+    // Checked on the base config and on each environment's overrides
+    const sections: Array<[Segment[], EnvironmentConfig]> = [
+      [[], config],
+      ...this.getEnvironments(config).map((env): [Segment[], EnvironmentConfig] => [
+        ["environments", env],
+        config.environments[env] || {},
+      ]),
+    ];
+
+    for (const [prefix, section] of sections) {
+      const containerSections: Array<[Segment[], { env_vars?: EnvVarConfig[] } | undefined]> = [
+        [[...prefix, "container"], section.container],
+        ...(Array.isArray(section.containers) ? section.containers : []).map(
+          (container, index): [Segment[], { env_vars?: EnvVarConfig[] }] => [[...prefix, "containers", index], container],
+        ),
+      ];
+      for (const [containerPath, container] of containerSections) {
+        (container?.env_vars || []).forEach((envVar, index) => {
+          if (typeof envVar === "object" && envVar !== null && ("value" in envVar) === ("valueFrom" in envVar)) {
+            issues.push(locator.issue([...containerPath, "env_vars", index], "must set exactly one of value or valueFrom"));
+          }
+        });
+      }
+
+      // Cross-field rules use the merged values, so an environment that only
+      // overrides max_instances is still checked against the base min_instances
+      const merged = (prefix.length === 0 ? config : deepMerge(config, section)) as CloudRunConfig;
+      const ingressIndex = Array.isArray(merged.containers)
+        ? merged.containers.findIndex((container) => container?.port !== undefined)
+        : -1;
+      const scalingPath: Segment[] = ingressIndex === -1 ? ["container", "scaling"] : ["containers", ingressIndex, "scaling"];
+      const scaling = ingressIndex === -1 ? merged.container?.scaling : merged.containers![ingressIndex].scaling;
+      const sectionSetsScaling = section.container?.scaling ||
+        (Array.isArray(section.containers) && section.containers.some((container) => container?.scaling));
+      if (sectionSetsScaling && scaling && scaling.max_instances < (scaling.min_instances || 0)) {
+        issues.push(locator.issue(
+          [...prefix, ...scalingPath],
+          `max_instances (${scaling.max_instances}) must be greater than or equal to min_instances (${scaling.min_instances})`,
+        ));
+      }
+
+      if (config.kind === "job") {
+        issues.push(...this.validateJob(section, prefix, locator));
+      } else {
+        if (section.job !== undefined) {
+          issues.push(locator.issue([...prefix, "job"], "only applies with kind: job"));
+        }
+        // Required for services only, so checked here rather than in the schema
+        if (prefix.length === 0 && isPlainObject(config.service) && config.service.allow_unauthenticated === undefined) {
+          issues.push(locator.issue(["service"], "missing allow_unauthenticated"));
+        }
+        if (prefix.length === 0 && isPlainObject(config.container) && config.container.port === undefined) {
+          issues.push(locator.issue(["container"], "missing port"));
+        }
+      }
+      issues.push(...this.validateContainers(merged, section, prefix, locator));
+      if (config.kind !== "job") {
+        issues.push(...this.validateProbes(merged, section, prefix, locator));
+      }
+      issues.push(...this.validateServiceSettings(merged, section, prefix, locator));
+      if (isPlainObject(section.iam)) {
+        issues.push(...this.validateIam(merged, prefix, locator));
+      }
+      if (prefix.length === 0 || section.volumes || section.secrets || section.container || section.containers) {
+        issues.push(...this.validateVolumes(merged, prefix, locator));
+      }
+
+      const traffic = section.traffic;
+      if (Array.isArray(traffic) && traffic.length > 0) {
+        const total = traffic.reduce((sum, target) => sum + (Number(target?.percent) || 0), 0);
+        if (total !== 100) {
+          issues.push(locator.issue([...prefix, "traffic"], `percentages add up to ${total}, must be 100`));
+        }
+      }
+
+      const steps = section.rollout?.steps;
+      if (Array.isArray(steps) && steps.length > 0) {
+        if (steps.some((step, index) => index > 0 && step <= steps[index - 1])) {
+          issues.push(locator.issue([...prefix, "rollout", "steps"], "steps must be strictly increasing"));
+        }
+        if (steps[steps.length - 1] !== 100) {
+          issues.push(locator.issue([...prefix, "rollout", "steps"], "the last step must be 100"));
+        }
+      }
+
+      const customDomain = merged.custom_domain;
+      if (isPlainObject(section.custom_domain) && isPlainObject(customDomain) && !customDomain.domain && !customDomain.domains?.length) {
+        issues.push(locator.issue([...prefix, "custom_domain"], "set domain or domains"));
+      }
+      if (Array.isArray(section.schedules)) {
+        issues.push(...this.validateSchedules(merged, prefix, locator));
+      }
+      if (isPlainObject(section.triggers) && isPlainObject(merged.triggers)) {
+        issues.push(...this.validateTriggers(merged, prefix, locator));
+      }
+      if (isPlainObject(merged.load_balancer) && (isPlainObject(section.load_balancer) || section.custom_domain)) {
+        issues.push(...this.validateLoadBalancer(merged, prefix, locator));
+      }
+
+      if (prefix.length > 0) {
+        for (const key of ["project_id", "region"] as const) {
+          if (!merged[key]) {
+            issues.push(locator.issue(prefix, `missing ${key} (set it here or at the top level)`));
+          }
+        }
+      }
+    }
+
+    return issues.sort((a, b) => (a.line ?? Infinity) - (b.line ?? Infinity));
   }
 
-  static validate(config: CloudRunConfig): boolean {
-    // Basic validation checks
-    if (!config.version || !config.project_id || !config.region) {
-      console.error("Missing required top-level fields");
-      return false;
+  // A service has either one `container` or a `containers` list with a single
+  // ingress container, unique names and acyclic `depends_on`
+  private static validateContainers(
+    config: CloudRunConfig,
+    section: EnvironmentConfig,
+    prefix: Segment[],
+    locator: IssueLocator,
+  ): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    if (!config.container === !config.containers) {
+      // Reported where the second one is introduced
+      if (prefix.length === 0 || section.container || section.containers) {
+        issues.push(locator.issue(prefix, "set exactly one of container or containers"));
+      }
+      return issues;
+    }
+    if (!Array.isArray(config.containers)) {
+      return issues;
     }
 
-    // Service validation
-    if (!config.service?.name || typeof config.service.allow_unauthenticated !== "boolean") {
-      console.error("Invalid service configuration");
-      return false;
+    const path = [...prefix, "containers"];
+    const names = config.containers.map((container) => container?.name);
+    names.forEach((name, index) => {
+      if (names.indexOf(name) !== index) {
+        issues.push(locator.issue([...path, index, "name"], `duplicate container name ${name}`));
+      }
+    });
+
+    const ingress = config.containers.filter((container) => container?.port !== undefined);
+    if (config.kind !== "job" && ingress.length !== 1) {
+      issues.push(locator.issue(path, `exactly one container must set port (the one receiving requests), found ${ingress.length}`));
     }
 
-    // Container validation
-    if (!config.container?.image || !config.container.port) {
-      console.error("Invalid container configuration");
-      return false;
+    config.containers.forEach((container, index) => {
+      if (container?.scaling && container.port === undefined) {
+        issues.push(locator.issue([...path, index, "scaling"], "scaling can only be set on the container with a port"));
+      }
+      (container?.depends_on || []).forEach((dependency, dependencyIndex) => {
+        if (dependency === container.name || !names.includes(dependency)) {
+          issues.push(locator.issue(
+            [...path, index, "depends_on", dependencyIndex],
+            dependency === container.name ? "a container can't depend on itself" : `unknown container ${dependency}`,
+          ));
+        }
+      });
+    });
+
+    // Depth-first search for a dependency cycle
+    const dependencies = new Map(config.containers.map((container) => [container?.name, container?.depends_on || []]));
+    const visit = (name: string, stack: string[]): string[] | undefined => {
+      if (stack.includes(name)) {
+        return [...stack.slice(stack.indexOf(name)), name];
+      }
+      for (const dependency of dependencies.get(name) || []) {
+        const cycle = dependency !== name && visit(dependency, [...stack, name]);
+        if (cycle) {
+          return cycle;
+        }
+      }
+      return undefined;
+    };
+    for (const name of names) {
+      const cycle = visit(name, []);
+      if (cycle) {
+        issues.push(locator.issue(path, `circular depends_on ${cycle.join(" -> ")}`));
+        break;
+      }
     }
 
-    // Resources validation
-    if (!config.container.resources?.cpu || !config.container.resources?.memory) {
-      console.error("Invalid resources configuration");
-      return false;
+    return issues;
+  }
+
+  // Each probe sets one kind of check on its container's port, within Cloud
+  // Run's limits. An environment is checked on the probe settings it
+  // overrides, merged onto the base ones.
+  private static validateProbes(
+    config: CloudRunConfig,
+    section: EnvironmentConfig,
+    prefix: Segment[],
+    locator: IssueLocator,
+  ): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    // Merged container, and the part of it this section sets
+    const containers: Array<[Segment[], ContainerConfig, DeepPartial<ContainerConfig> | undefined]> =
+      Array.isArray(config.containers)
+        ? config.containers.map((container, index) => [
+          [...prefix, "containers", index],
+          container,
+          prefix.length === 0 ? container : section.containers?.find((override) => override?.name === container?.name),
+        ])
+        : [[[...prefix, "container"], config.container, prefix.length === 0 ? config.container : section.container]];
+
+    for (const [path, container, own] of containers) {
+      if (!isPlainObject(own) || !isPlainObject(container) || !isPlainObject(container.probes)) {
+        continue;
+      }
+      for (const kind of ["startup", "liveness"] as const) {
+        const probe = container.probes[kind];
+        const ownProbe = own.probes?.[kind];
+        if (!isPlainObject(probe) || !isPlainObject(ownProbe)) {
+          continue;
+        }
+        const probePath = [...path, "probes", kind];
+        const limits = PROBE_LIMITS[kind];
+
+        const checks = (["http_get", "tcp_socket", "grpc"] as const).filter((check) => probe[check] !== undefined);
+        // An inherited check is reported where it is set
+        const ownsCheck = checks.some((check) => ownProbe[check] !== undefined);
+        if (ownsCheck && checks.length !== 1) {
+          issues.push(locator.issue(probePath, "set exactly one of http_get, tcp_socket and grpc"));
+        } else if (ownsCheck && kind === "liveness" && checks[0] === "tcp_socket") {
+          issues.push(locator.issue(
+            [...probePath, "tcp_socket"],
+            "liveness probes can't use tcp_socket, Cloud Run supports http_get and grpc only",
+          ));
+        } else if (ownsCheck) {
+          const port = (probe[checks[0]] as { port?: number } | undefined)?.port;
+          if (port !== undefined && container.port !== undefined && port !== container.port) {
+            issues.push(locator.issue(
+              [...probePath, checks[0], "port"],
+              `must be the container port ${container.port}, not ${port}`,
+            ));
+          }
+        }
+
+        const ranges: Array<[keyof ProbeConfig, number]> = [
+          ["initial_delay_seconds", limits.initialDelay],
+          ["period_seconds", limits.period],
+          ["timeout_seconds", limits.period],
+        ];
+        for (const [field, max] of ranges) {
+          const value = ownProbe[field];
+          if (typeof value === "number" && value > max) {
+            issues.push(locator.issue([...probePath, field], `must be at most ${max} for ${kind} probes, got ${value}`));
+          }
+        }
+
+        const period = probe.period_seconds ?? PROBE_DEFAULTS.period_seconds;
+        const timeout = probe.timeout_seconds ?? PROBE_DEFAULTS.timeout_seconds;
+        const ownsTiming = ownProbe.period_seconds !== undefined || ownProbe.timeout_seconds !== undefined;
+        if (ownsTiming && typeof period === "number" && typeof timeout === "number" && timeout > period) {
+          issues.push(locator.issue(
+            [...probePath, ownProbe.timeout_seconds !== undefined ? "timeout_seconds" : "period_seconds"],
+            `timeout_seconds (${timeout}) must not exceed period_seconds (${period})`,
+          ));
+        }
+      }
     }
+    return issues;
+  }
+
+  // Each volume sets one kind, volume names (including the volumes created
+  // for `secrets`) are unique, and every volume_mounts entry names a volume
+  // and doesn't reuse a mount path within its container
+  private static validateVolumes(config: CloudRunConfig, prefix: Segment[], locator: IssueLocator): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const volumes = Array.isArray(config.volumes) ? config.volumes.filter(isPlainObject) as VolumeConfig[] : [];
+    const secrets = Array.isArray(config.secrets) ? config.secrets.filter(isPlainObject) : [];
+
+    const names = new Map<string, string>(); // volume name -> where it is declared
+    secrets.forEach((secret, index) => {
+      if (typeof secret.name === "string") {
+        names.set(secretVolumeName(secret.name), `secrets[${index}]`);
+      }
+    });
+    volumes.forEach((volume, index) => {
+      const path = [...prefix, "volumes", index];
+      const kinds = VOLUME_KINDS.filter((kind) => kind in volume);
+      if (kinds.length !== 1) {
+        const found = kinds.length > 0 ? `, found ${kinds.join(", ")}` : "";
+        issues.push(locator.issue(path, `must set exactly one of ${VOLUME_KINDS.join(", ")}${found}`));
+      }
+      if (names.has(volume.name)) {
+        issues.push(locator.issue([...path, "name"], `duplicate volume name ${volume.name} (also used by ${names.get(volume.name)})`));
+      }
+      names.set(volume.name, `volumes[${index}]`);
+    });
+
+    // Mount paths of each container, the one with the port (a job's first
+    // container) also mounts the `secrets` entries and the volumes with a path
+    const isMain = (container: ContainerConfig) =>
+      config.kind === "job"
+        ? container === (Array.isArray(config.containers) ? config.containers[0] : config.container)
+        : container.port !== undefined;
+    const containers = Array.isArray(config.containers)
+      ? config.containers.map((container, index): [Segment[], ContainerConfig] => [[...prefix, "containers", index], container])
+      : config.container ? [[[...prefix, "container"], config.container] as [Segment[], ContainerConfig]] : [];
+    for (const [path, container] of containers) {
+      if (!isPlainObject(container)) {
+        continue;
+      }
+      const mounts: Array<[Segment[], string | undefined]> = [];
+      if (isMain(container)) {
+        secrets.forEach((secret, index) => {
+          mounts.push([[...prefix, "secrets", index, "mount_path"], secret.mount_path || `/secrets/${secret.name}`]);
+        });
+        volumes.forEach((volume, index) => mounts.push([[...prefix, "volumes", index, "path"], volume.path]));
+      }
+      (container.volume_mounts || []).forEach((mount, index) => {
+        const mountPath = [...path, "volume_mounts", index];
+        const declared = volumes.some((volume) => volume.name === mount?.name) ||
+          secrets.some((secret) => secret.name === mount?.name);
+        if (isPlainObject(mount) && !declared) {
+          issues.push(locator.issue([...mountPath, "name"], `unknown volume ${mount.name}, declare it under volumes or secrets`));
+        }
+        mounts.push([[...mountPath, "path"], mount?.path]);
+      });
 
-    // Scaling validation
-    if (
-      config.container.scaling &&
-      (config.container.scaling.min_instances < 0 ||
-        config.container.scaling.max_instances < config.container.scaling.min_instances ||
-        config.container.scaling.concurrency < 1 ||
-        config.container.scaling.concurrency > 1000)
-    ) {
-      console.error("Invalid scaling configuration");
-      return false;
+      const seen = new Set<string>();
+      for (const [mountPath, value] of mounts) {
+        const normalized = typeof value === "string" ? value.replace(/\/+$/, "") : undefined;
+        if (normalized === undefined) {
+          continue;
+        }
+        if (seen.has(normalized)) {
+          issues.push(locator.issue(mountPath, `mount path ${value} is used twice in the same container`));
+        }
+        seen.add(normalized);
+      }
     }
 
-    // Environment variables validation
-    if (Array.isArray(config.container.env_vars)) {
-      for (const envVar of config.container.env_vars) {
-        // Type guard to check if envVar has valueFrom
-        const hasValueFrom = 'valueFrom' in envVar;
+    return issues;
+  }
+
+  // allUsers is granted through allow_unauthenticated only, so flipping that
+  // flag back to false always revokes it
+  private static validateIam(config: CloudRunConfig, prefix: Segment[], locator: IssueLocator): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const path = [...prefix, "iam"];
+    const iam = config.iam!;
+
+    (Array.isArray(iam.invokers) ? iam.invokers : []).forEach((member, index) => {
+      if (member === "allUsers") {
+        issues.push(locator.issue([...path, "invokers", index], "use service.allow_unauthenticated instead of allUsers"));
+      }
+    });
+
+    const bindings = Array.isArray(iam.bindings) ? iam.bindings : [];
+    const roles = bindings.map((binding) => binding?.role);
+    bindings.forEach((binding, index) => {
+      if (roles.indexOf(binding?.role) !== index) {
+        issues.push(locator.issue([...path, "bindings", index, "role"], `duplicate role ${binding.role}`));
+      }
+      if (binding?.role === "roles/run.invoker") {
+        issues.push(locator.issue([...path, "bindings", index, "role"], "list invokers under iam.invokers"));
+      }
+    });
+
+    return issues;
+  }
 
-        if (
-          !envVar.name ||
-          (hasValueFrom ? !('value' in envVar) && !envVar.valueFrom : !envVar.value) ||
-          (hasValueFrom && !envVar.valueFrom.secretKeyRef)
-        ) {
-          console.error("Invalid environment variable configuration");
-          return false;
+  private static validateLoadBalancer(config: CloudRunConfig, prefix: Segment[], locator: IssueLocator): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const path = [...prefix, "load_balancer"];
+    const loadBalancer = config.load_balancer!;
+    const certificates = Array.isArray(loadBalancer.ssl_certificates) ? loadBalancer.ssl_certificates : [];
+    const hostRules = Array.isArray(loadBalancer.host_rules) ? loadBalancer.host_rules : [];
+
+    if (loadBalancer.backend_service?.existing) {
+      if (!loadBalancer.url_map) {
+        issues.push(locator.issue(path, "set url_map to the URL map of the existing load balancer"));
+      }
+      for (const key of ["ssl_certificates", "https_redirect", "host_rules"] as const) {
+        if (loadBalancer[key] !== undefined) {
+          issues.push(locator.issue([...path, key], "can't be set with backend_service.existing, the URL map is managed elsewhere"));
         }
       }
-    } else {
-      console.error("Environment variables must be an array");
-      return false;
     }
 
-    // Traffic validation
-    if (
-      !Array.isArray(config.traffic) ||
-      !config.traffic.every((t) => typeof t.revision === "string" && typeof t.percent === "number")
-    ) {
-      console.error("Invalid traffic configuration");
-      return false;
+    certificates.forEach((certificate, index) => {
+      if (!isPlainObject(certificate)) {
+        return;
+      }
+      if (certificate.domains && (certificate.certificate || certificate.private_key)) {
+        issues.push(locator.issue([...path, "ssl_certificates", index], "set either domains or certificate and private_key"));
+      } else if (!certificate.certificate !== !certificate.private_key) {
+        issues.push(locator.issue([...path, "ssl_certificates", index], "certificate and private_key must be set together"));
+      }
+    });
+    if (loadBalancer.https_redirect && certificates.length === 0 && !config.custom_domain) {
+      issues.push(locator.issue([...path, "https_redirect"], "needs ssl_certificates or custom_domain"));
+    }
+
+    const hosts = new Set<string>();
+    hostRules.forEach((rule, index) => {
+      for (const host of Array.isArray(rule?.hosts) ? rule.hosts : []) {
+        if (hosts.has(host)) {
+          issues.push(locator.issue([...path, "host_rules", index, "hosts"], `host ${host} is routed by another host rule`));
+        }
+        hosts.add(host);
+      }
+    });
+
+    return issues;
+  }
+
+  // Schedule names are unique, and schedules of a job run it with an OAuth
+  // token rather than calling a path
+  private static validateSchedules(config: CloudRunConfig, prefix: Segment[], locator: IssueLocator): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const schedules = Array.isArray(config.schedules) ? config.schedules : [];
+    const names = schedules.map((schedule) => schedule?.name);
+
+    schedules.forEach((schedule, index) => {
+      const path = [...prefix, "schedules", index];
+      if (names.indexOf(schedule?.name) !== index) {
+        issues.push(locator.issue([...path, "name"], `duplicate schedule name ${schedule.name}`));
+      }
+      if (config.kind !== "job" || !isPlainObject(schedule)) {
+        return;
+      }
+      for (const key of ["path", "method"] as const) {
+        if (schedule[key] !== undefined) {
+          issues.push(locator.issue([...path, key], "only applies to schedules of services"));
+        }
+      }
+      if (!schedule.service_account) {
+        issues.push(locator.issue(path, "set service_account, running a job needs an OAuth token"));
+      }
+    });
+
+    return issues;
+  }
+
+  // Trigger names are unique per kind, dead-letter settings go together and
+  // the event type of an Eventarc trigger isn't repeated in its filters
+  private static validateTriggers(config: CloudRunConfig, prefix: Segment[], locator: IssueLocator): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const pubsub = Array.isArray(config.triggers?.pubsub) ? config.triggers.pubsub : [];
+    const eventarc = Array.isArray(config.triggers?.eventarc) ? config.triggers.eventarc : [];
+
+    for (const [kind, triggers] of [["pubsub", pubsub], ["eventarc", eventarc]] as const) {
+      const names = triggers.map((trigger) => trigger?.name);
+      triggers.forEach((trigger, index) => {
+        if (names.indexOf(trigger?.name) !== index) {
+          issues.push(locator.issue([...prefix, "triggers", kind, index, "name"], `duplicate trigger name ${trigger.name}`));
+        }
+      });
     }
 
-    // Add environments validation to existing validation
-    if (!config.environments?.dev || !config.environments?.staging || !config.environments?.prod) {
-      console.error("Missing required environment configurations");
-      return false;
+    pubsub.forEach((trigger, index) => {
+      const path = [...prefix, "triggers", "pubsub", index];
+      if (!isPlainObject(trigger)) {
+        return;
+      }
+      if (typeof trigger.ack_deadline === "string" && DURATION_PATTERN.test(trigger.ack_deadline)) {
+        const milliseconds = parseDuration(trigger.ack_deadline);
+        if (milliseconds < 10_000 || milliseconds > 600_000) {
+          issues.push(locator.issue([...path, "ack_deadline"], "must be between 10s and 10m"));
+        }
+      }
+      if (trigger.max_delivery_attempts !== undefined && !trigger.dead_letter_topic) {
+        issues.push(locator.issue([...path, "max_delivery_attempts"], "needs dead_letter_topic"));
+      }
+    });
+
+    eventarc.forEach((trigger, index) => {
+      if (isPlainObject(trigger) && isPlainObject(trigger.filters) && trigger.filters.type !== undefined) {
+        issues.push(locator.issue([...prefix, "triggers", "eventarc", index, "filters", "type"], "set event_type instead"));
+      }
+    });
+
+    return issues;
+  }
+
+  // Service settings a job doesn't take, reported where a section sets them
+  private static validateJob(section: EnvironmentConfig, prefix: Segment[], locator: IssueLocator): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    for (const key of ["traffic", "rollout", "load_balancer", "custom_domain", "iam", "triggers"] as const) {
+      if (section[key] !== undefined) {
+        issues.push(locator.issue([...prefix, key], "only applies to services, not jobs"));
+      }
     }
 
-    // Validate each environment has required fields
-    for (const env of ['dev', 'staging', 'prod'] as const) {
-      if (!config.environments[env].project_id || !config.environments[env].region) {
-        console.error(`Missing required fields in ${env} environment configuration`);
-        return false;
+    if (isPlainObject(section.service)) {
+      for (const key of ["ingress", "timeout", "session_affinity", "max_instance_request_concurrency"] as const) {
+        if (section.service[key] !== undefined) {
+          issues.push(locator.issue([...prefix, "service", key], "only applies to services, not jobs"));
+        }
+      }
+      if (section.service.allow_unauthenticated) {
+        issues.push(locator.issue([...prefix, "service", "allow_unauthenticated"], "jobs don't serve requests"));
       }
     }
 
-    return true;
+    const containers: Array<[Segment[], unknown]> = [
+      [[...prefix, "container"], section.container],
+      ...(Array.isArray(section.containers) ? section.containers : []).map(
+        (container, index): [Segment[], unknown] => [[...prefix, "containers", index], container],
+      ),
+    ];
+    for (const [path, container] of containers) {
+      if (!isPlainObject(container)) {
+        continue;
+      }
+      for (const key of ["port", "scaling", "probes"]) {
+        if (container[key] !== undefined) {
+          issues.push(locator.issue([...path, key], "only applies to services, not jobs"));
+        }
+      }
+    }
+
+    const timeout = section.job?.task_timeout;
+    if (typeof timeout === "string" && DURATION_PATTERN.test(timeout)) {
+      const milliseconds = parseDuration(timeout);
+      if (milliseconds < 1000 || milliseconds > MAX_TASK_TIMEOUT) {
+        issues.push(locator.issue([...prefix, "job", "task_timeout"], `must be between 1s and ${formatDuration(MAX_TASK_TIMEOUT)}`));
+      }
+    }
+
+    return issues;
+  }
+
+  // Rules on the service settings the schema can't express, checked where a
+  // section sets them. The timeout format itself is checked by the schema.
+  private static validateServiceSettings(
+    config: CloudRunConfig,
+    section: EnvironmentConfig,
+    prefix: Segment[],
+    locator: IssueLocator,
+  ): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const path = [...prefix, "service"];
+    const service = config.service;
+    if (!isPlainObject(section.service) || !isPlainObject(service)) {
+      return issues;
+    }
+
+    if (section.service.timeout !== undefined && typeof service.timeout === "string" && DURATION_PATTERN.test(service.timeout)) {
+      const timeout = parseDuration(service.timeout);
+      if (timeout < 1000 || timeout > MAX_REQUEST_TIMEOUT) {
+        issues.push(locator.issue([...path, "timeout"], `must be between 1s and ${formatDuration(MAX_REQUEST_TIMEOUT)}`));
+      }
+    }
+
+    // The block is deep-merged, so an environment switching from a connector
+    // to direct VPC egress sets `connector: null`
+    const vpcAccess = service.vpc_access;
+    if (section.service.vpc_access !== undefined && isPlainObject(vpcAccess)) {
+      const direct = vpcAccess.network != null || vpcAccess.subnet != null;
+      if (vpcAccess.connector != null && direct) {
+        issues.push(locator.issue([...path, "vpc_access"], "set either connector or network/subnet (direct VPC egress), not both"));
+      } else if (vpcAccess.connector == null && !direct) {
+        issues.push(locator.issue([...path, "vpc_access"], "set connector or network/subnet (direct VPC egress)"));
+      }
+      if (vpcAccess.network_tags && !direct) {
+        issues.push(locator.issue([...path, "vpc_access", "network_tags"], "network_tags only apply to direct VPC egress"));
+      }
+    }
+
+    if (section.service.max_instance_request_concurrency !== undefined && config.container?.scaling?.concurrency !== undefined) {
+      issues.push(locator.issue(
+        [...path, "max_instance_request_concurrency"],
+        "remove scaling.concurrency, max_instance_request_concurrency replaces it",
+      ));
+    }
+
+    return issues;
+  }
+
+  static formatIssue(issue: ValidationIssue, file?: string): string {
+    const location = issue.line !== undefined ? `${file ?? ""}:${issue.line}:${issue.column}: ` : file ? `${file}: ` : "";
+    return `${location}${issue.path || "(root)"}: ${issue.message}`;
+  }
+
+  // Environment names in the order they are declared in the config
+  static getEnvironments(config: CloudRunConfig): Environment[] {
+    return Object.keys(config.environments || {});
   }
 
   static getServiceNameForEnv(config: CloudRunConfig, env: Environment): string {
-    return `${config.service.name}-${env}`;
+    const suffix = config.environments?.[env]?.service_name_suffix ?? `-${env}`;
+    return `${config.service.name}${suffix}`;
+  }
+
+  // Containers built and pushed by `package`: the single `container`, or the
+  // entries of `containers` that have a build section
+  static getBuiltContainers(config: CloudRunConfig): ContainerConfig[] {
+    return config.containers ? config.containers.filter((container) => container.build) : [config.container];
   }
 
   static getConfigForEnv(config: CloudRunConfig, env: Environment): CloudRunConfig {
-    const serviceName = this.getServiceNameForEnv(config, env);
-    // Parse the original image name to handle the tag correctly
-    const [imagePath, imageTag] = config.container.image.split(':');
-    return {
-      ...config,
-      service: {
-        ...config.service,
-        name: serviceName
-      },
-      container: {
-        ...config.container,
-        image: `${imagePath}-${env}:latest`
+    const { service_name_suffix: _suffix, ...overrides } = config.environments?.[env] || {};
+    const merged = interpolateConfig(deepMerge(config, overrides) as CloudRunConfig, { env });
+    // The values references expanded to are checked like the rest of the
+    // config. Only the raw environments still hold references.
+    const issues = schemaIssues(merged, new IssueLocator(), true);
+    if (issues.length > 0) {
+      throw new InterpolationError(env, issues, "Invalid values after resolving references");
+    }
+    const serviceName = this.getServiceNameForEnv(merged, env);
+    const built = this.getBuiltContainers(merged);
+
+    // Each environment gets its own repository for the images `package`
+    // builds. A tag or digest in the config is kept; untagged images are
+    // pinned to what `package` pushed at deploy time. An image set explicitly
+    // for the environment is deployed as-is.
+    const withEnvImage = <T extends ContainerConfig>(container: T, override?: { image?: string }): T => {
+      if (!built.includes(container) || override?.image) {
+        return container;
       }
+      const image = parseImage(container.image);
+      return { ...container, image: formatImage({ ...image, repository: `${image.repository}-${env}` }) };
     };
+
+    const service = { ...merged.service, name: serviceName };
+    if (!merged.containers) {
+      return { ...merged, service, container: withEnvImage(merged.container, overrides.container) };
+    }
+
+    const containers = merged.containers.map((container) =>
+      withEnvImage(container, overrides.containers?.find((override) => override?.name === container.name))
+    );
+    // A job has no port, its first container is the main one
+    const ingress = (containers.find((container) => container.port !== undefined) ?? containers[0]) as CloudRunConfig["container"];
+    return { ...merged, service, containers, container: ingress };
   }
 }
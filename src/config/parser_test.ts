@@ -0,0 +1,103 @@
+import { assertEquals } from "@std/assert";
+import { CloudRunConfig, ConfigParser } from "./parser.ts";
+
+// A config as parsed from YAML, with `overrides` replacing top-level sections
+function baseConfig(overrides: Record<string, unknown> = {}): CloudRunConfig {
+  return {
+    version: "1",
+    project_id: "my-project",
+    region: "europe-west1",
+    service: { name: "api", allow_unauthenticated: false },
+    container: {
+      image: "europe-docker.pkg.dev/my-project/apps/api:1.0.0",
+      port: 8080,
+      env_vars: [
+        { name: "LOG_LEVEL", value: "info" },
+        { name: "API_TOKEN", valueFrom: { secretKeyRef: { name: "api-token", key: "latest" } } },
+      ],
+      resources: { cpu: "1", memory: "512Mi" },
+      scaling: { min_instances: 0, max_instances: 10 },
+    },
+    environments: { dev: {} },
+    ...overrides,
+  } as unknown as CloudRunConfig;
+}
+
+Deno.test("getConfigForEnv deep-merges an environment's overrides onto the base config", () => {
+  const config = baseConfig({
+    environments: { dev: { container: { resources: { memory: "1Gi" }, scaling: { max_instances: 2 } } } },
+  });
+
+  const dev = ConfigParser.getConfigForEnv(config, "dev");
+
+  assertEquals(dev.container.resources, { cpu: "1", memory: "1Gi" });
+  assertEquals(dev.container.scaling, { min_instances: 0, max_instances: 2 });
+  assertEquals(config.container.resources?.memory, "512Mi");
+});
+
+Deno.test("getConfigForEnv merges env_vars by name and keeps their order", () => {
+  const config = baseConfig({
+    environments: {
+      dev: { container: { env_vars: [{ name: "API_TOKEN", value: "dev-token" }, { name: "DEBUG", value: "1" }] } },
+    },
+  });
+
+  assertEquals(ConfigParser.getConfigForEnv(config, "dev").container.env_vars, [
+    { name: "LOG_LEVEL", value: "info" },
+    { name: "API_TOKEN", value: "dev-token" },
+    { name: "DEBUG", value: "1" },
+  ]);
+});
+
+Deno.test("getConfigForEnv replaces arrays that aren't merged by key", () => {
+  const config = baseConfig({
+    traffic: [{ revision: "api-00001", percent: 50 }, { revision: "api-00002", percent: 50 }],
+    environments: { dev: { traffic: [{ revision: "api-00002", percent: 100 }] } },
+  });
+
+  assertEquals(ConfigParser.getConfigForEnv(config, "dev").traffic, [{ revision: "api-00002", percent: 100 }]);
+});
+
+Deno.test("getConfigForEnv merges containers entry by entry on their name", () => {
+  const { container, ...rest } = baseConfig();
+  const config = {
+    ...rest,
+    containers: [
+      { ...container, name: "app" },
+      {
+        name: "proxy",
+        image: "envoyproxy/envoy:v1.30",
+        args: ["-c", "/etc/envoy.yaml"],
+        resources: { cpu: "0.5", memory: "256Mi" },
+      },
+    ],
+    environments: { dev: { containers: [{ name: "proxy", image: "envoyproxy/envoy:v1.31" }] } },
+  } as unknown as CloudRunConfig;
+
+  const dev = ConfigParser.getConfigForEnv(config, "dev");
+
+  assertEquals(dev.containers?.map((entry) => entry.image), [container.image, "envoyproxy/envoy:v1.31"]);
+  assertEquals(dev.containers?.[1].args, ["-c", "/etc/envoy.yaml"]);
+  assertEquals(dev.container.name, "app");
+});
+
+Deno.test("getConfigForEnv suffixes the service name and falls back to the top-level project", () => {
+  const config = baseConfig({
+    environments: { dev: {}, prod: { project_id: "my-prod-project", service_name_suffix: "" } },
+  });
+
+  const dev = ConfigParser.getConfigForEnv(config, "dev");
+  const prod = ConfigParser.getConfigForEnv(config, "prod");
+
+  assertEquals([dev.service.name, dev.project_id], ["api-dev", "my-project"]);
+  assertEquals([prod.service.name, prod.project_id, prod.region], ["api", "my-prod-project", "europe-west1"]);
+});
+
+Deno.test("validate requires rollout steps to increase and end at 100", () => {
+  const messages = (steps: number[]) =>
+    ConfigParser.validate(baseConfig({ rollout: { steps } })).map((issue) => `${issue.path}: ${issue.message}`);
+
+  assertEquals(messages([5, 25, 50, 100]), []);
+  assertEquals(messages([5, 50, 25, 100]), ["rollout.steps: steps must be strictly increasing"]);
+  assertEquals(messages([5, 25, 50]), ["rollout.steps: the last step must be 100"]);
+});
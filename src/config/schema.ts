@@ -0,0 +1,605 @@
+// JSON Schema for cloudrun.yaml. Cross-field rules (e.g. min/max instances,
+// traffic adding up to 100, one of container or containers) are checked by
+// ConfigParser.validate on top of it.
+
+const envVarSchema = {
+  type: "object",
+  required: ["name"],
+  additionalProperties: false,
+  properties: {
+    name: { type: "string", minLength: 1 },
+    value: { type: "string" },
+    valueFrom: {
+      type: "object",
+      required: ["secretKeyRef"],
+      additionalProperties: false,
+      properties: {
+        secretKeyRef: {
+          type: "object",
+          required: ["name"],
+          additionalProperties: false,
+          properties: {
+            name: { type: "string", minLength: 1 },
+            key: { type: "string" },
+          },
+        },
+      },
+    },
+  },
+};
+
+const durationSchema = { type: "string", pattern: "^\\d+(\\.\\d+)?(ms|s|m|h|d)?$" };
+
+const serviceSchema = {
+  type: "object",
+  required: ["name"],
+  additionalProperties: false,
+  properties: {
+    name: { type: "string", minLength: 1 },
+    allow_unauthenticated: { type: "boolean" },
+    service_account: { type: "string" },
+    ingress: { enum: ["all", "internal", "internal-and-cloud-load-balancing"] },
+    timeout: durationSchema,
+    execution_environment: { enum: ["gen1", "gen2"] },
+    session_affinity: { type: "boolean" },
+    max_instance_request_concurrency: { type: "integer", minimum: 1, maximum: 1000 },
+    encryption_key: { type: "string", pattern: "^projects/[^/]+/locations/[^/]+/keyRings/[^/]+/cryptoKeys/[^/]+$" },
+    labels: {
+      type: "object",
+      propertyNames: { pattern: "^[a-z][a-z0-9_-]{0,62}$" },
+      additionalProperties: { type: "string", pattern: "^[a-z0-9_-]{0,63}$" },
+    },
+    // The v2 API rejects Cloud Run's own prefixes (run.googleapis.com/ and
+    // the like), the typed settings above replace those annotations
+    annotations: {
+      type: "object",
+      propertyNames: {
+        pattern: "^(([a-z0-9.-]+/)?[A-Za-z0-9]([-A-Za-z0-9_.]{0,61}[A-Za-z0-9])?)$",
+        not: { pattern: "^(run|cloud)\\.googleapis\\.com/|^(serving|autoscaling)\\.knative\\.dev/" },
+      },
+      additionalProperties: { type: "string" },
+    },
+    vpc_access: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        connector: { type: ["string", "null"], minLength: 1 },
+        network: { type: ["string", "null"], minLength: 1 },
+        subnet: { type: ["string", "null"], minLength: 1 },
+        network_tags: { type: "array", items: { type: "string", pattern: "^[a-z][-a-z0-9]{0,62}$" } },
+        egress: { enum: ["all-traffic", "private-ranges-only"] },
+      },
+    },
+  },
+};
+
+const portSchema = { type: "integer", minimum: 1, maximum: 65535 };
+
+// Permission bits of mounted files, e.g. 0o400 in YAML
+const fileModeSchema = { type: "integer", minimum: 0, maximum: 0o777 };
+
+const probeSchema = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    http_get: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        path: { type: "string", pattern: "^/" },
+        port: portSchema,
+      },
+    },
+    tcp_socket: {
+      type: "object",
+      additionalProperties: false,
+      properties: { port: portSchema },
+    },
+    grpc: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        port: portSchema,
+        service: { type: "string" },
+      },
+    },
+    initial_delay_seconds: { type: "integer", minimum: 0 },
+    period_seconds: { type: "integer", minimum: 1 },
+    timeout_seconds: { type: "integer", minimum: 1 },
+    failure_threshold: { type: "integer", minimum: 1 },
+  },
+};
+
+const containerProperties = {
+  image: { type: "string", minLength: 1 },
+  port: portSchema,
+  command: { type: "array", items: { type: "string" } },
+  args: { type: "array", items: { type: "string" } },
+  env_vars: { type: "array", items: envVarSchema },
+  resources: {
+    type: "object",
+    required: ["cpu", "memory"],
+    additionalProperties: false,
+    properties: {
+      cpu: { type: ["string", "number"], pattern: "^(\\d+(\\.\\d+)?|\\d+m)$" },
+      memory: { type: "string", pattern: "^\\d+[KMGTPEZYkmgtpezy]i?[Bb]?$" },
+      cpu_idle: { type: "boolean" },
+      startup_cpu_boost: { type: "boolean" },
+    },
+  },
+  scaling: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      min_instances: { type: "integer", minimum: 0 },
+      max_instances: { type: "integer", minimum: 1 },
+      concurrency: { type: "integer", minimum: 1, maximum: 1000 },
+    },
+  },
+  volume_mounts: {
+    type: "array",
+    items: {
+      type: "object",
+      required: ["name", "path"],
+      additionalProperties: false,
+      properties: {
+        name: { type: "string", minLength: 1 },
+        path: { type: "string", pattern: "^/" },
+      },
+    },
+  },
+  depends_on: { type: "array", items: { type: "string" } },
+  probes: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      startup: probeSchema,
+      liveness: probeSchema,
+    },
+  },
+};
+
+const containerSchema = {
+  type: "object",
+  required: ["image", "resources"],
+  additionalProperties: false,
+  properties: containerProperties,
+};
+
+const buildSchema = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    builder: { enum: ["docker", "cloudbuild", "pack"] },
+    dockerfile: { type: "string" },
+    context: { type: "string" },
+    build_args: { type: "object", additionalProperties: { type: "string" } },
+    target: { type: "string" },
+    platform: { type: "string" },
+    pack_builder: { type: "string" },
+    tag_strategy: { enum: ["git-sha", "timestamp", "git-sha-timestamp"] },
+  },
+};
+
+const secretsSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    required: ["name"],
+    additionalProperties: false,
+    properties: {
+      name: { type: "string", minLength: 1 },
+      version: { type: ["string", "integer"] },
+      mount_path: { type: "string", pattern: "^/" },
+    },
+  },
+};
+
+// Each entry sets exactly one of the kinds, checked by ConfigParser.validate
+const volumesSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    required: ["name"],
+    additionalProperties: false,
+    properties: {
+      name: { type: "string", pattern: "^[a-z0-9]([-a-z0-9]{0,61}[a-z0-9])?$" },
+      path: { type: "string", pattern: "^/" },
+      secret: {
+        type: "object",
+        required: ["secret"],
+        additionalProperties: false,
+        properties: {
+          secret: { type: "string", minLength: 1 },
+          default_mode: fileModeSchema,
+          items: {
+            type: "array",
+            minItems: 1,
+            items: {
+              type: "object",
+              required: ["path"],
+              additionalProperties: false,
+              properties: {
+                path: { type: "string", pattern: "^[^/]" },
+                version: { type: ["string", "integer"] },
+                mode: fileModeSchema,
+              },
+            },
+          },
+        },
+      },
+      gcs: {
+        type: "object",
+        required: ["bucket"],
+        additionalProperties: false,
+        properties: {
+          bucket: { type: "string", pattern: "^[a-z0-9][-a-z0-9_.]{1,220}[a-z0-9]$" },
+          read_only: { type: "boolean" },
+          mount_options: { type: "array", items: { type: "string", minLength: 1 } },
+        },
+      },
+      nfs: {
+        type: "object",
+        required: ["server", "path"],
+        additionalProperties: false,
+        properties: {
+          server: { type: "string", minLength: 1 },
+          path: { type: "string", pattern: "^/" },
+          read_only: { type: "boolean" },
+        },
+      },
+      in_memory: {
+        type: ["object", "null"],
+        additionalProperties: false,
+        properties: {
+          size_limit: { type: "string", pattern: "^\\d+[KMGTPEZYkmgtpezy]i?[Bb]?$" },
+        },
+      },
+      cloudsql: {
+        type: "object",
+        required: ["instances"],
+        additionalProperties: false,
+        properties: {
+          instances: {
+            type: "array",
+            minItems: 1,
+            items: { type: "string", pattern: "^[^:\\s]+:[^:\\s]+:[^:\\s]+$" },
+          },
+        },
+      },
+    },
+  },
+};
+
+// IAM principals, e.g. serviceAccount:x@p.iam.gserviceaccount.com or group:devs@example.com
+const memberSchema = {
+  type: "string",
+  pattern: "^(allUsers|allAuthenticatedUsers|(user|serviceAccount|group|domain|principal|principalSet):\\S+)$",
+};
+
+const iamSchema = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    invokers: { type: "array", items: memberSchema },
+    bindings: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["role", "members"],
+        additionalProperties: false,
+        properties: {
+          role: { type: "string", pattern: "^(roles/[A-Za-z0-9_.]+|(projects|organizations)/[^/]+/roles/[A-Za-z0-9_.]+)$" },
+          members: { type: "array", minItems: 1, items: memberSchema },
+        },
+      },
+    },
+    authoritative: { type: "boolean" },
+  },
+};
+
+const domainSchema = { type: "string", pattern: "^[a-z0-9]([-a-z0-9]*[a-z0-9])?(\\.[a-z0-9]([-a-z0-9]*[a-z0-9])?)+$" };
+
+// A domain, optionally starting with a *. wildcard
+const hostSchema = { type: "string", pattern: "^(\\*\\.)?[a-z0-9]([-a-z0-9]*[a-z0-9])?(\\.[a-z0-9]([-a-z0-9]*[a-z0-9])?)+$" };
+
+const resourceNameSchema = { type: "string", pattern: "^[a-z]([-a-z0-9]{0,61}[a-z0-9])?$" };
+
+const jobSchema = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    task_count: { type: "integer", minimum: 1, maximum: 10000 },
+    parallelism: { type: "integer", minimum: 0 },
+    max_retries: { type: "integer", minimum: 0, maximum: 10 },
+    task_timeout: durationSchema,
+  },
+};
+
+const scheduleSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    required: ["name", "cron"],
+    additionalProperties: false,
+    properties: {
+      name: { type: "string", pattern: "^[A-Za-z0-9_-]+$" },
+      cron: { type: "string", pattern: "^\\S+(\\s+\\S+){4}$" },
+      time_zone: { type: "string" },
+      path: { type: "string", pattern: "^/" },
+      method: { enum: ["GET", "POST", "PUT", "PATCH", "DELETE", "HEAD", "OPTIONS"] },
+      body: { type: ["string", "object"] },
+      headers: { type: "object", additionalProperties: { type: "string" } },
+      service_account: { type: "string" },
+      attempt_deadline: durationSchema,
+      retry: {
+        type: "object",
+        additionalProperties: false,
+        properties: {
+          count: { type: "integer", minimum: 0, maximum: 5 },
+          max_retry_duration: durationSchema,
+          min_backoff: durationSchema,
+          max_backoff: durationSchema,
+          max_doublings: { type: "integer", minimum: 0 },
+        },
+      },
+      paused: { type: "boolean" },
+    },
+  },
+};
+
+// A topic ID in the service's project, or a full topic name
+const topicSchema = { type: "string", pattern: "^(projects/[^/]+/topics/)?[A-Za-z][\\w.~+%-]{2,254}$" };
+
+const triggersSchema = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    pubsub: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["name", "topic", "service_account"],
+        additionalProperties: false,
+        properties: {
+          name: { type: "string", pattern: "^[A-Za-z0-9_-]+$" },
+          topic: topicSchema,
+          path: { type: "string", pattern: "^/" },
+          ack_deadline: durationSchema,
+          dead_letter_topic: topicSchema,
+          max_delivery_attempts: { type: "integer", minimum: 5, maximum: 100 },
+          filter: { type: "string" },
+          service_account: { type: "string" },
+        },
+      },
+    },
+    eventarc: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["name", "event_type", "service_account"],
+        additionalProperties: false,
+        properties: {
+          name: { type: "string", pattern: "^[a-z0-9-]+$" },
+          event_type: { type: "string" },
+          filters: { type: "object", additionalProperties: { type: "string" } },
+          path: { type: "string", pattern: "^/" },
+          service_account: { type: "string" },
+        },
+      },
+    },
+  },
+};
+
+const customDomainSchema = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    domain: domainSchema,
+    domains: { type: "array", items: domainSchema },
+    certificate: resourceNameSchema,
+    certificate_timeout: durationSchema,
+  },
+};
+
+const loadBalancerSchema = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    name: resourceNameSchema,
+    neg: resourceNameSchema,
+    backend_service: {
+      type: "object",
+      required: ["name"],
+      additionalProperties: false,
+      properties: {
+        name: resourceNameSchema,
+        existing: { type: "boolean" },
+      },
+    },
+    url_map: resourceNameSchema,
+    target_proxy: resourceNameSchema,
+    forwarding_rule: resourceNameSchema,
+    address: resourceNameSchema,
+    ssl_certificates: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["name"],
+        additionalProperties: false,
+        properties: {
+          name: resourceNameSchema,
+          domains: { type: "array", minItems: 1, maxItems: 100, items: domainSchema },
+          certificate: { type: "string" },
+          private_key: { type: "string" },
+        },
+      },
+    },
+    https_proxy: resourceNameSchema,
+    https_forwarding_rule: resourceNameSchema,
+    https_redirect: { type: "boolean" },
+    redirect_url_map: resourceNameSchema,
+    host_rules: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["hosts", "service"],
+        additionalProperties: false,
+        properties: {
+          hosts: { type: "array", minItems: 1, items: { anyOf: [hostSchema, { const: "*" }] } },
+          service: resourceNameSchema,
+          path_rules: {
+            type: "array",
+            items: {
+              type: "object",
+              required: ["paths", "service"],
+              additionalProperties: false,
+              properties: {
+                paths: { type: "array", minItems: 1, items: { type: "string", pattern: "^/" } },
+                service: resourceNameSchema,
+              },
+            },
+          },
+        },
+      },
+    },
+    security_policy: { type: "string" },
+    cdn: {
+      anyOf: [
+        { type: "boolean" },
+        {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            cache_mode: { enum: ["CACHE_ALL_STATIC", "USE_ORIGIN_HEADERS", "FORCE_CACHE_ALL"] },
+            default_ttl: durationSchema,
+            max_ttl: durationSchema,
+            client_ttl: durationSchema,
+          },
+        },
+      ],
+    },
+  },
+};
+
+const trafficSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    required: ["percent"],
+    additionalProperties: false,
+    properties: {
+      revision: { type: "string" },
+      percent: { type: "integer", minimum: 0, maximum: 100 },
+      tag: { type: "string" },
+    },
+  },
+};
+
+const rolloutSchema = {
+  type: "object",
+  required: ["steps"],
+  additionalProperties: false,
+  properties: {
+    steps: { type: "array", minItems: 1, items: { type: "integer", minimum: 1, maximum: 100 } },
+    interval: durationSchema,
+    health_check: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        url: { type: "string", pattern: "^https?://" },
+        path: { type: "string", pattern: "^/" },
+        expected_status: { type: "integer", minimum: 100, maximum: 599 },
+        timeout: durationSchema,
+      },
+    },
+  },
+};
+
+// Entries of `containers`, each optionally built from its own context
+const containerEntrySchema = {
+  type: "object",
+  required: ["name", "image"],
+  additionalProperties: false,
+  properties: {
+    ...containerProperties,
+    name: { type: "string", pattern: "^[a-z0-9]([-a-z0-9]{0,61}[a-z0-9])?$" },
+    build: buildSchema,
+  },
+};
+
+// Sections shared by the top level and the per-environment overrides
+const sectionProperties = {
+  project_id: { type: "string", minLength: 1 },
+  region: { type: "string", minLength: 1 },
+  service: serviceSchema,
+  container: containerSchema,
+  containers: { type: "array", minItems: 1, items: containerEntrySchema },
+  build: buildSchema,
+  secrets: secretsSchema,
+  volumes: volumesSchema,
+  iam: iamSchema,
+  job: jobSchema,
+  schedules: scheduleSchema,
+  triggers: triggersSchema,
+  custom_domain: customDomainSchema,
+  load_balancer: loadBalancerSchema,
+  traffic: trafficSchema,
+  rollout: rolloutSchema,
+};
+
+// The keywords of a schema optionalProperties looks at
+interface SchemaNode {
+  type?: unknown;
+  required?: string[];
+  properties?: Record<string, SchemaNode>;
+  [keyword: string]: unknown;
+}
+
+// Environment overrides are partial, so nested objects lose their `required`
+// keys. Array entries keep them: an array is merged or replaced as a whole.
+function optionalProperties(schema: SchemaNode): SchemaNode {
+  if (schema.type !== "object") {
+    return schema;
+  }
+  const { required: _required, properties, ...rest } = schema;
+  return {
+    ...rest,
+    ...(properties && {
+      properties: Object.fromEntries(
+        Object.entries(properties).map(([key, value]) => [key, optionalProperties(value)]),
+      ),
+    }),
+  };
+}
+
+const environmentSchema = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    ...optionalProperties({ type: "object", properties: sectionProperties }).properties,
+    // Merged onto the base entry with the same name, so only the name is required
+    containers: {
+      type: "array",
+      items: { ...optionalProperties(containerEntrySchema), required: ["name"] },
+    },
+    service_name_suffix: { type: "string", pattern: "^[a-z0-9-]*$" },
+  },
+};
+
+export const CONFIG_SCHEMA = {
+  type: "object",
+  required: ["version", "service", "environments"],
+  additionalProperties: false,
+  properties: {
+    version: { type: ["string", "number"] },
+    kind: { enum: ["service", "job"] },
+    ...sectionProperties,
+    environments: {
+      type: "object",
+      minProperties: 1,
+      propertyNames: { pattern: "^[a-z][a-z0-9-]*$" },
+      additionalProperties: environmentSchema,
+    },
+  },
+};
@@ -5,6 +5,12 @@ import { createInitCommand } from './commands/init.ts';
 import { createPackageCommand } from './commands/package.ts';
 import { createDestroyCommand } from './commands/destory.ts';
 import { createSecretsCommand } from './commands/secrets.ts';
+import { createPlanCommand } from './commands/plan.ts';
+import { createValidateCommand } from './commands/validate.ts';
+import { createStatusCommand } from './commands/status.ts';
+import { createRollbackCommand } from './commands/rollback.ts';
+import { createJobCommand } from './commands/job.ts';
+import { createLogsCommand } from './commands/logs.ts';
 
 const VERSION = '0.0.1'
 const program = new Command();
@@ -20,5 +26,11 @@ program.addCommand(createDeployCommand())
 program.addCommand(createPackageCommand())
 program.addCommand(createDestroyCommand())
 program.addCommand(createSecretsCommand())
+program.addCommand(createPlanCommand())
+program.addCommand(createValidateCommand())
+program.addCommand(createStatusCommand())
+program.addCommand(createRollbackCommand())
+program.addCommand(createJobCommand())
+program.addCommand(createLogsCommand())
 
 program.parse();
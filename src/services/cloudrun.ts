@@ -1,118 +1,518 @@
 import { GoogleAuth } from "npm:google-auth-library";
 
-import { ServicesClient, RevisionsClient } from "npm:@google-cloud/run";
-import { CloudRunConfig } from "../config/parser.ts";
-import * as process from "node:process"
+import { ServicesClient, RevisionsClient, protos } from "npm:@google-cloud/run@^1.5.0";
+import {
+  CloudRunConfig,
+  ContainerConfig,
+  IngressSetting,
+  PROBE_DEFAULTS,
+  ProbeConfig,
+  ProbeKind,
+  secretVolumeName,
+  VOLUME_KINDS,
+  VolumeConfig,
+  VpcEgressSetting,
+} from "../config/parser.ts";
+import { diffRecords, FieldChange } from "../utils/diff.ts";
+import { formatImage, ImageReference, imageLabels, parseImage } from "../utils/image.ts";
+import { createAuth } from "../utils/credentials.ts";
+import { formatDuration, parseDuration } from "../utils/duration.ts";
 import ora from "npm:ora";
+import * as process from "node:process";
+
+import { formatLoadBalancerActions, LoadBalancerService } from "./load_balancer.ts";
+import { CertificateStatus, customDomains, DomainMappingService, formatDnsRecords } from "./domain_mappings.ts";
+import { formatScheduleChange, SchedulerService } from "./scheduler.ts";
+import { formatTriggerChange, TriggerService, triggerIdentities } from "./triggers.ts";
+import { formatLogEntry, LogService } from "./logs.ts";
+
+type ITrafficTarget = protos.google.cloud.run.v2.ITrafficTarget;
+type IIngressTraffic = keyof typeof protos.google.cloud.run.v2.IngressTraffic;
+type IExecutionEnvironment = keyof typeof protos.google.cloud.run.v2.ExecutionEnvironment;
+type IVpcEgress = keyof typeof protos.google.cloud.run.v2.VpcAccess.VpcEgress;
+
+// Config values of the service settings and the API enums they map to
+const INGRESS_SETTINGS: Record<IngressSetting, string> = {
+  "all": "INGRESS_TRAFFIC_ALL",
+  "internal": "INGRESS_TRAFFIC_INTERNAL_ONLY",
+  "internal-and-cloud-load-balancing": "INGRESS_TRAFFIC_INTERNAL_LOAD_BALANCER",
+};
+const EXECUTION_ENVIRONMENTS: Record<string, string> = {
+  "gen1": "EXECUTION_ENVIRONMENT_GEN1",
+  "gen2": "EXECUTION_ENVIRONMENT_GEN2",
+};
+const VPC_EGRESS_SETTINGS: Record<VpcEgressSetting, string> = {
+  "all-traffic": "ALL_TRAFFIC",
+  "private-ranges-only": "PRIVATE_RANGES_ONLY",
+};
+
+// Config value of an API enum, e.g. internal for INGRESS_TRAFFIC_INTERNAL_ONLY
+function settingName(settings: Record<string, string>, value: unknown): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  return Object.keys(settings).find((key) => settings[key] === value) ?? String(value);
+}
+
+type IPolicy = protos.google.iam.v1.IPolicy;
+type IBinding = protos.google.iam.v1.IBinding;
 
-import * as fs from "node:fs";
+// gRPC status code of a setIamPolicy call with a stale etag
+const ABORTED = 10;
 
-import { exec } from "node:child_process";
+const INVOKER_ROLE = "roles/run.invoker";
 
-interface IRevisionScaling {
-  minInstanceCount?: number;
-  maxInstanceCount?: number;
-  concurrency?: number;
+// Tag giving a rolled out revision its own URL for health checks
+const CANARY_TAG = "canary";
+const REVISION_READY_TIMEOUT = 10 * 60 * 1000;
+
+// Default wait for a custom domain certificate, and how often deploy checks
+// it and the DNS records of new domain mappings
+const CERTIFICATE_TIMEOUT = 15 * 60 * 1000;
+const CERTIFICATE_POLLING_INTERVAL = 10000;
+const DNS_RECORD_ATTEMPTS = 6;
+
+export interface RevisionStatus {
+  name: string;
+  image: string;
+  digest?: string;
+  createTime?: string;
+  scaling: { min_instances?: number; max_instances?: number };
+  ready: string;
+  conditions: Array<{ type: string; state: string; message?: string }>;
 }
 
-export class CloudRunService {
-  private client: ServicesClient;
-  private revisionsClient: RevisionsClient;
-  constructor(config: CloudRunConfig, credentialsPath?: string) {
-    if (credentialsPath) {
-      let credentials;
-      try {
-        if (credentialsPath === "json") {
-          // Use JSON string from environment variable
-          const jsonCreds = process.env.GOOGLE_CREDENTIALS;
-          if (!jsonCreds) {
-            throw new Error("GOOGLE_CREDENTIALS environment variable not found");
-          }
-          credentials = JSON.parse(jsonCreds);
-        } else {
-          console.log("BBBB ", credentialsPath);
-          // Use file path
-          const keyFileContent = fs.readFileSync(credentialsPath, "utf-8");
-          credentials = JSON.parse(keyFileContent);
-        }
+export interface TrafficStatus {
+  revision: string;
+  percent: number;
+  tag?: string;
+  url?: string;
+}
 
-        const auth = new GoogleAuth({
-          credentials,
-          scopes: ["https://www.googleapis.com/auth/cloud-platform"],
-        });
-        this.client = new ServicesClient({ auth });
-        this.revisionsClient = new RevisionsClient({ auth });
-      } catch (error: unknown) {
-        console.error("Error initializing authentication:", error);
-        throw error;
+export interface ServiceStatus {
+  name: string;
+  url: string;
+  latestReadyRevision: string;
+  latestCreatedRevision: string;
+  traffic: TrafficStatus[];
+  probes: ProbeStatus[];
+  revisions: RevisionStatus[];
+  invokers: string[];
+}
+
+// Version of a secret referenced by an env var: the ref's key, else the
+// version pinned in the `secrets` section, else latest
+export function secretVersion(config: CloudRunConfig, ref: { name: string; key?: string }): string {
+  const declared = (config.secrets || []).find((secret) => secret.name === ref.name);
+  return String(ref.key ?? declared?.version ?? "latest");
+}
+
+// One-line summary of a volume, e.g. "gcs:assets (read-only)"
+function describeVolume(volume: protos.google.cloud.run.v2.IVolume): string {
+  const readOnly = (value?: boolean | null) => value ? " (read-only)" : "";
+  if (volume.secret) {
+    const items = (volume.secret.items || []).map((item) => `${item.path}@${item.version || "latest"}`);
+    return `secret:${(volume.secret.secret || "").split("/").pop()}${items.length ? ` ${items.join(", ")}` : ""}`;
+  }
+  if (volume.gcs) {
+    const options = volume.gcs.mountOptions?.length ? ` [${volume.gcs.mountOptions.join(", ")}]` : "";
+    return `gcs:${volume.gcs.bucket}${readOnly(volume.gcs.readOnly)}${options}`;
+  }
+  if (volume.nfs) {
+    return `nfs:${volume.nfs.server}:${volume.nfs.path}${readOnly(volume.nfs.readOnly)}`;
+  }
+  if (volume.cloudSqlInstance) {
+    return `cloudsql:${(volume.cloudSqlInstance.instances || []).join(", ")}`;
+  }
+  if (volume.emptyDir) {
+    return `in_memory${volume.emptyDir.sizeLimit ? `:${volume.emptyDir.sizeLimit}` : ""}`;
+  }
+  return Object.keys(volume).filter((key) => key !== "name").join(",");
+}
+
+export interface IamChange {
+  action: "add" | "remove";
+  role: string;
+  member: string;
+}
+
+// Members of each role the config declares: the `iam` section, plus allUsers
+// as invoker with allow_unauthenticated and the push identities of triggers
+export function desiredIamBindings(config: CloudRunConfig): Record<string, string[]> {
+  const bindings: Record<string, string[]> = {};
+  const add = (role: string, members: string[]) => {
+    bindings[role] = [...new Set([...(bindings[role] || []), ...members])];
+  };
+  add(INVOKER_ROLE, [...(config.iam?.invokers || []), ...(config.service.allow_unauthenticated ? ["allUsers"] : [])]);
+  add(INVOKER_ROLE, triggerIdentities(config).map((email) => `serviceAccount:${email}`));
+  for (const binding of config.iam?.bindings || []) {
+    add(binding.role, binding.members);
+  }
+  return Object.fromEntries(Object.entries(bindings).filter(([, members]) => members.length > 0));
+}
+
+// Works out the bindings deploy writes. Declared members are added and
+// allUsers loses the invoker role when allow_unauthenticated is false. Other
+// members and roles are kept, unless iam.authoritative is set.
+export function reconcilePolicy(policy: IPolicy, config: CloudRunConfig): { bindings: IBinding[]; changes: IamChange[] } {
+  const desired = desiredIamBindings(config);
+  const authoritative = config.iam?.authoritative === true;
+  const changes: IamChange[] = [];
+
+  const bindings: IBinding[] = [];
+  for (const binding of policy.bindings || []) {
+    const role = binding.role || "";
+    // Conditional bindings can't be declared, so they are only dropped in
+    // authoritative mode
+    const members = (binding.members || []).filter((member) => {
+      const keep = authoritative
+        ? !binding.condition && (desired[role] || []).includes(member)
+        : !(role === INVOKER_ROLE && member === "allUsers" && !config.service.allow_unauthenticated);
+      if (!keep) {
+        changes.push({ action: "remove", role, member });
       }
-    } else {
-      this.client = new ServicesClient();
-      this.revisionsClient = new RevisionsClient();
+      return keep;
+    });
+    if (members.length > 0) {
+      bindings.push({ ...binding, members });
     }
   }
 
-  async allowUnauthenticated(servicePath: string) {
-    const policy = {
-      bindings: [
-        {
-          role: "roles/run.invoker",
-          members: ["allUsers"],
-        },
-      ],
-    };
+  for (const [role, members] of Object.entries(desired)) {
+    let binding = bindings.find((candidate) => candidate.role === role && !candidate.condition);
+    for (const member of members) {
+      if (binding?.members?.includes(member)) {
+        continue;
+      }
+      if (!binding) {
+        binding = { role, members: [] };
+        bindings.push(binding);
+      }
+      binding.members = [...(binding.members || []), member];
+      changes.push({ action: "add", role, member });
+    }
+  }
+
+  return { bindings, changes };
+}
+
+export interface ProbeStatus {
+  container?: string;
+  kind: ProbeKind;
+  check: string;
+}
+
+// One-line summary of a probe, e.g. "http /healthz:8080 delay 0s every 10s timeout 1s failures 3"
+export function describeProbe(probe: protos.google.cloud.run.v2.IProbe, containerPort?: number | null): string {
+  const port = (value?: number | null) => value || containerPort || "";
+  const check = probe.httpGet
+    ? `http ${probe.httpGet.path || "/"}:${port(probe.httpGet.port)}`
+    : probe.grpc
+    ? `grpc ${probe.grpc.service || "(default)"}:${port(probe.grpc.port)}`
+    : `tcp :${port(probe.tcpSocket?.port)}`;
+  return [
+    check,
+    `delay ${probe.initialDelaySeconds ?? PROBE_DEFAULTS.initial_delay_seconds}s`,
+    `every ${probe.periodSeconds || PROBE_DEFAULTS.period_seconds}s`,
+    `timeout ${probe.timeoutSeconds || PROBE_DEFAULTS.timeout_seconds}s`,
+    `failures ${probe.failureThreshold || PROBE_DEFAULTS.failure_threshold}`,
+  ].join(" ");
+}
+
+export interface RollbackResult {
+  revision: string;
+  before: TrafficStatus[];
+  after: TrafficStatus[];
+}
+
+export function timestampToIso(timestamp?: protos.google.protobuf.ITimestamp | null): string | undefined {
+  if (!timestamp?.seconds) {
+    return undefined;
+  }
+  return new Date(Number(timestamp.seconds) * 1000).toISOString();
+}
+
+// Gives `percent` to the revision and spreads the rest over the base split
+// in proportion to what each target served before. Tagged targets are kept
+// even when they end up with no traffic.
+export function splitTraffic(
+  baseTraffic: ITrafficTarget[],
+  revision: string,
+  percent: number,
+  tag?: string,
+): ITrafficTarget[] {
+  const remaining = 100 - percent;
+  const serving = baseTraffic.reduce((sum, target) => sum + (target.percent || 0), 0);
+  const targets = baseTraffic.map((target) => ({
+    ...target,
+    percent: serving > 0 ? Math.floor(((target.percent || 0) * remaining) / serving) : 0,
+  }));
+
+  // Hand the rounding remainder to the largest target so the split adds up to 100
+  const assigned = targets.reduce((sum, target) => sum + target.percent, 0);
+  if (remaining > assigned) {
+    const largest = targets.reduce((a, b) => (b.percent > a.percent ? b : a));
+    largest.percent += remaining - assigned;
+  }
+
+  return [
+    ...targets.filter((target) => target.percent > 0 || target.tag),
+    { type: "TRAFFIC_TARGET_ALLOCATION_TYPE_REVISION", revision, percent, ...(tag && { tag }) },
+  ];
+}
+
+// The revision receiving the most traffic
+function servingRevision(service: protos.google.cloud.run.v2.IService): string | undefined {
+  const latestReady = service.latestReadyRevision?.split("/").pop();
+  const serving = [...(service.trafficStatuses || [])].sort((a, b) => (b.percent || 0) - (a.percent || 0))[0];
+  return serving?.revision || latestReady;
+}
+
+// Resolves the target of a rollback to a revision and checks it is ready.
+// `revisions` is newest first, as listed by getRevisions.
+export function rollbackRevision(
+  service: protos.google.cloud.run.v2.IService,
+  revisions: RevisionStatus[],
+  target: string,
+): string {
+  let revision: string;
+  if (target === "previous") {
+    const current = servingRevision(service);
+    const currentIndex = revisions.findIndex((candidate) => candidate.name === current);
+    const previous = revisions
+      .slice(currentIndex + 1)
+      .find((candidate) => candidate.ready === "CONDITION_SUCCEEDED");
+    if (!previous) {
+      throw new Error(`No ready revision older than ${current} to roll back to`);
+    }
+    revision = previous.name;
+  } else {
+    revision = service.trafficStatuses?.find((status) => status.tag === target)?.revision ||
+      target.split("/").pop()!;
+  }
+
+  const status = revisions.find((candidate) => candidate.name === revision);
+  if (!status) {
+    throw new Error(`Revision ${revision} not found for service ${service.name?.split("/").pop()}`);
+  }
+  if (status.ready !== "CONDITION_SUCCEEDED") {
+    throw new Error(`Revision ${revision} is not ready (${status.ready}), refusing to route traffic to it`);
+  }
+  return revision;
+}
+
+export interface ServicePlan {
+  exists: boolean;
+  changes: FieldChange[];
+}
+
+export class CloudRunService {
+  private client: ServicesClient;
+  private revisionsClient: RevisionsClient;
+  private auth: GoogleAuth;
+  constructor(private credentialsPath?: string) {
     try {
-      await this.client.setIamPolicy({
-        resource: servicePath,
-        policy,
-      });
-      console.log("Allowed unauthenticated access to service");
+      this.auth = createAuth(credentialsPath);
+      this.client = new ServicesClient({ auth: this.auth });
+      this.revisionsClient = new RevisionsClient({ auth: this.auth });
     } catch (error: unknown) {
-      console.error("Error setting IAM policy:", error);
+      console.error("Error initializing authentication:", error);
       throw error;
     }
   }
 
-  private validateResourceConfig(config: CloudRunConfig) {
-    // Validate CPU format
-    const cpuPattern = /^(\d+(\.\d+)?|(\d+m))$/;
-    if (config.container.resources && !cpuPattern.test(config.container.resources.cpu as string)) {
-      throw new Error(
-        'Invalid CPU format. Must be a number or a millicpu value (e.g., "1" or "1000m")',
-      );
+  // Brings the service's IAM policy in line with the config. The policy is
+  // written back with the etag it was read with, and re-read if it changed
+  // in between.
+  async reconcileIam(config: CloudRunConfig, servicePath: string, dryRun = false): Promise<IamChange[]> {
+    for (let attempt = 0; ; attempt++) {
+      const [policy] = await this.client.getIamPolicy({ resource: servicePath });
+      const { bindings, changes } = reconcilePolicy(policy, config);
+      if (changes.length === 0 || dryRun) {
+        return changes;
+      }
+      try {
+        await this.client.setIamPolicy({ resource: servicePath, policy: { ...policy, bindings } });
+        return changes;
+      } catch (error: unknown) {
+        if ((error as { code?: number }).code !== ABORTED || attempt >= 2) {
+          console.error("Error setting IAM policy:", error);
+          throw error;
+        }
+      }
     }
+  }
 
-    // Validate memory format
-    const memoryPattern = /^\d+[KMGTPEZYkmgtpezy]i?[Bb]?$/;
-    if (config.container.resources && !memoryPattern.test(config.container.resources.memory as string)) {
-      throw new Error(
-        'Invalid memory format. Must be a number followed by a unit (e.g., "256Mi", "1Gi")',
-      );
-    }
+  // Builds the service resource sent to the Cloud Run API from the config.
+  // `image` overrides the ingress container's image with a resolved,
+  // digest-pinned image.
+  buildService(config: CloudRunConfig, image?: ImageReference): protos.google.cloud.run.v2.IService {
+    const settings = config.service;
+    const labels = { ...settings.labels, ...(image && imageLabels(image)) };
+    const concurrency = settings.max_instance_request_concurrency ?? config.container.scaling?.concurrency;
+
+    return {
+      ...(settings.ingress && { ingress: INGRESS_SETTINGS[settings.ingress] as IIngressTraffic }),
+      ...(settings.labels && { labels: settings.labels }),
+      ...(settings.annotations && { annotations: settings.annotations }),
+      template: {
+        containers: this.buildContainers(config, image),
+        ...(config.container.scaling && {
+          scaling: {
+            minInstanceCount: config.container.scaling.min_instances,
+            maxInstanceCount: config.container.scaling.max_instances,
+          },
+        }),
+        ...(concurrency !== undefined && { maxInstanceRequestConcurrency: concurrency }),
+        ...(config.service.service_account && {
+          serviceAccount: config.service.service_account,
+        }),
+        ...(settings.timeout && { timeout: { seconds: Math.round(parseDuration(settings.timeout) / 1000) } }),
+        ...(settings.execution_environment && {
+          executionEnvironment: EXECUTION_ENVIRONMENTS[settings.execution_environment] as IExecutionEnvironment,
+        }),
+        ...(settings.session_affinity !== undefined && { sessionAffinity: settings.session_affinity }),
+        ...(settings.encryption_key && { encryptionKey: settings.encryption_key }),
+        ...(settings.vpc_access && { vpcAccess: this.createVpcAccess(config) }),
+        ...(Object.keys(labels).length > 0 && { labels }),
+        volumes: this.createVolumes(config),
+      },
+      traffic: this.createTrafficConfiguration(config.traffic || []),
+    };
+  }
 
-    // Validate scaling configuration
-    if (config.container.scaling && config.container.scaling.min_instances < 0) {
-      throw new Error("Minimum instances cannot be negative");
-    }
+  // The same containers, volumes and settings as buildService, in the task
+  // template of a job
+  buildJob(config: CloudRunConfig, image?: ImageReference): protos.google.cloud.run.v2.IJob {
+    const settings = config.service;
+    const job = config.job || {};
+    const labels = { ...settings.labels, ...(image && imageLabels(image)) };
 
-    if (
-      config.container.scaling &&
-      config.container.scaling.max_instances < (config.container.scaling.min_instances || 0)
-    ) {
-      throw new Error("Maximum instances must be greater than or equal to minimum instances");
-    }
+    return {
+      ...(settings.labels && { labels: settings.labels }),
+      ...(settings.annotations && { annotations: settings.annotations }),
+      template: {
+        ...(Object.keys(labels).length > 0 && { labels }),
+        ...(job.task_count !== undefined && { taskCount: job.task_count }),
+        ...(job.parallelism !== undefined && { parallelism: job.parallelism }),
+        template: {
+          containers: this.buildContainers(config, image),
+          volumes: this.createVolumes(config),
+          ...(job.max_retries !== undefined && { maxRetries: job.max_retries }),
+          ...(job.task_timeout && { timeout: { seconds: Math.round(parseDuration(job.task_timeout) / 1000) } }),
+          ...(settings.service_account && { serviceAccount: settings.service_account }),
+          ...(settings.execution_environment && {
+            executionEnvironment: EXECUTION_ENVIRONMENTS[settings.execution_environment] as IExecutionEnvironment,
+          }),
+          ...(settings.encryption_key && { encryptionKey: settings.encryption_key }),
+          ...(settings.vpc_access && { vpcAccess: this.createVpcAccess(config) }),
+        },
+      },
+    };
+  }
 
-    if (
-      (config.container.scaling && config.container.scaling.concurrency < 1) ||
-      (config.container.scaling && config.container.scaling.concurrency > 1000)
-    ) {
-      throw new Error("Concurrency must be between 1 and 1000");
-    }
+  // The main container runs `image` when given, the others their configured
+  // images
+  private buildContainers(config: CloudRunConfig, image?: ImageReference): protos.google.cloud.run.v2.IContainer[] {
+    return (config.containers || [config.container]).map((container) =>
+      container === config.container
+        ? this.buildContainer(config, container, image ? formatImage(image) : container.image)
+        : this.buildContainer(config, container, container.image)
+    );
+  }
+
+  // The ingress container also mounts every secret and every volume with a
+  // path. Sidecars only mount what their volume_mounts list.
+  private buildContainer(config: CloudRunConfig, container: ContainerConfig, image: string): protos.google.cloud.run.v2.IContainer {
+    const envVars = Array.isArray(container.env_vars) ? container.env_vars : [];
+    const volumeMounts = [
+      ...(container === config.container ? this.createVolumeMounts(config) : []),
+      ...(container.volume_mounts || []).map((mount) => ({
+        name: this.resolveVolumeName(config, mount.name),
+        mountPath: mount.path,
+      })),
+    ];
+
+    return {
+      ...(container.name && { name: container.name }),
+      image,
+      ...(container.command && { command: container.command }),
+      ...(container.args && { args: container.args }),
+      ...(container.port && { ports: [{ containerPort: container.port }] }),
+      ...(container.resources && {
+        resources: {
+          limits: {
+            cpu: container.resources.cpu,
+            memory: container.resources.memory,
+          },
+          ...(container.resources.cpu_idle !== undefined && { cpuIdle: container.resources.cpu_idle }),
+          ...(container.resources.startup_cpu_boost !== undefined && {
+            startupCpuBoost: container.resources.startup_cpu_boost,
+          }),
+        },
+      }),
+      ...(envVars.length > 0 && {
+        env: envVars.map((envVar) => {
+          // Check if the environment variable references a secret
+          if ('valueFrom' in envVar) {
+            return {
+              name: envVar.name,
+              valueSource: {
+                secretKeyRef: {
+                  secret: envVar.valueFrom.secretKeyRef.name,
+                  version: secretVersion(config, envVar.valueFrom.secretKeyRef),
+                },
+              },
+            };
+          } else {
+            return {
+              name: envVar.name,
+              value: envVar.value,
+            };
+          }
+        }),
+      }),
+      ...(volumeMounts.length > 0 && { volumeMounts }),
+      ...(container.depends_on && container.depends_on.length > 0 && { dependsOn: container.depends_on }),
+      ...(container.probes?.startup && { startupProbe: this.createProbe(container.probes.startup) }),
+      ...(container.probes?.liveness && { livenessProbe: this.createProbe(container.probes.liveness) }),
+    };
   }
 
-  async deploy(config: CloudRunConfig) {
-    this.validateResourceConfig(config);
+  // A connector name is expanded to its full path in the service's project
+  // and region. Direct VPC egress takes network and subnet names or paths.
+  private createVpcAccess(config: CloudRunConfig): protos.google.cloud.run.v2.IVpcAccess {
+    const vpcAccess = config.service.vpc_access!;
+    const connector = vpcAccess.connector && !vpcAccess.connector.includes("/")
+      ? `projects/${config.project_id}/locations/${config.region}/connectors/${vpcAccess.connector}`
+      : vpcAccess.connector;
+
+    return {
+      ...(connector && { connector }),
+      ...((vpcAccess.network || vpcAccess.subnet) && {
+        networkInterfaces: [{
+          ...(vpcAccess.network && { network: vpcAccess.network }),
+          ...(vpcAccess.subnet && { subnetwork: vpcAccess.subnet }),
+          ...(vpcAccess.network_tags && { tags: vpcAccess.network_tags }),
+        }],
+      }),
+      ...(vpcAccess.egress && { egress: VPC_EGRESS_SETTINGS[vpcAccess.egress] as IVpcEgress }),
+    };
+  }
+
+  private createProbe(probe: ProbeConfig): protos.google.cloud.run.v2.IProbe {
+    return {
+      ...(probe.initial_delay_seconds !== undefined && { initialDelaySeconds: probe.initial_delay_seconds }),
+      ...(probe.period_seconds !== undefined && { periodSeconds: probe.period_seconds }),
+      ...(probe.timeout_seconds !== undefined && { timeoutSeconds: probe.timeout_seconds }),
+      ...(probe.failure_threshold !== undefined && { failureThreshold: probe.failure_threshold }),
+      ...(probe.http_get && { httpGet: { path: probe.http_get.path, port: probe.http_get.port } }),
+      ...(probe.tcp_socket && { tcpSocket: { port: probe.tcp_socket.port } }),
+      ...(probe.grpc && { grpc: { port: probe.grpc.port, service: probe.grpc.service } }),
+    };
+  }
 
+  async deploy(config: CloudRunConfig, image?: ImageReference) {
     const serviceName = config.service.name;
     const projectId = config.project_id;
     const region = config.region;
@@ -134,89 +534,50 @@ export class CloudRunService {
       );
     }
 
-    const envVars = Array.isArray(config.container.env_vars) ? config.container.env_vars : [];
-    const secrets = config.secrets || [];
-    const volumes = config.volumes || [];
+    const service = this.buildService(config, image);
 
-    const service = {
-      template: {
-        containers: [
-          {
-            image: config.container.image,
-            ports: [{ containerPort: config.container.port }],
-            ...(config.container.resources && {
-              resources: {
-                limits: {
-                  cpu: config.container.resources.cpu,
-                  memory: config.container.resources.memory,
-                },
-              },
-            }),
-            ...(envVars.length > 0 && {
-              env: envVars.map((envVar) => {
-                // Check if the environment variable references a secret
-                if ('valueFrom' in envVar) {
-                  return {
-                    name: envVar.name,
-                    valueSource: {
-                      secretKeyRef: {
-                        secret: envVar.valueFrom.secretKeyRef.name,
-                        version: "latest"
-                      },
-                    },
-                  };
-                } else {
-                  return {
-                    name: envVar.name,
-                    value: envVar.value,
-                  };
-                }
-              }),
-            }),
-            ...(secrets.length > 0 && {
-              volumeMounts: this.createVolumeMounts(secrets),
-            }),
-            ...(volumes.length > 0 && {
-              volumeMounts: [
-                ...(this.createVolumeMounts(secrets)),
-                ...this.createVolumeMountsFromVolumes(volumes),
-              ],
-            }),
-          },
-        ],
-        ...(config.container.scaling && {
-          scaling: {
-            minInstanceCount: config.container.scaling.min_instances,
-            maxInstanceCount: config.container.scaling.max_instances,
-            concurrency: config.container.scaling.concurrency,
-          } as IRevisionScaling,
-        }),
-        ...(config.service.service_account && {
-          serviceAccount: config.service.service_account,
-        }),
-        volumes: this.createVolumes(secrets, volumes),
-      },
-      traffic: this.createTrafficConfiguration(config.traffic || []),
-    };
+    // Set when the new revision is rolled out progressively per config.rollout
+    let canary: { revision: string; baseTraffic: ITrafficTarget[] } | undefined;
 
     // Check if the service already exists
     try {
       console.log(`Checking if service ${serviceName} exists...`);
-      const existingService = await this.client.getService({
+      const [existingService] = await this.client.getService({
         name: `projects/${projectId}/locations/${region}/services/${serviceName}`,
       });
       console.log(`Service ${serviceName} already exists. Deploying a new revision.`);
-      
-      // Deploy a new revision
+
+      if (config.rollout) {
+        const baseTraffic = this.pinnedTraffic(existingService);
+        if (baseTraffic.some((target) => (target.percent || 0) > 0)) {
+          canary = { revision: `${serviceName}-${Date.now().toString(36)}`, baseTraffic };
+        }
+      }
+
+      // Deploy a new revision. A canary starts with no traffic and gets a tag
+      // URL to be health checked on.
       await this.client.updateService({
         service: {
           name: `projects/${projectId}/locations/${region}/services/${serviceName}`,
-          template: service.template, // Use the constructed service template
+          // The update replaces the service, so settings removed from the
+          // config go back to Cloud Run's defaults
+          ingress: service.ingress,
+          labels: service.labels,
+          annotations: service.annotations,
+          template: canary ? { ...service.template, revision: canary.revision } : service.template,
+          ...(canary
+            ? {
+              traffic: [
+                ...canary.baseTraffic,
+                { type: "TRAFFIC_TARGET_ALLOCATION_TYPE_REVISION", revision: canary.revision, percent: 0, tag: CANARY_TAG },
+              ],
+            }
+            : (config.traffic && config.traffic.length > 0) && { traffic: service.traffic }),
         },
       });
     } catch (error) {
       // If the service does not exist, create it
-      if (error instanceof Error && (error as any).code === 5) {
+      if (error instanceof Error && (error as { code?: number }).code === 5) {
         console.log(`Service ${serviceName} does not exist. Creating a new service.`);
         
         // Create the new service
@@ -240,6 +601,7 @@ export class CloudRunService {
     const POLLING_INTERVAL = 5000;
 
     const startTime = Date.now();
+    let failure: string | undefined;
     const spinner = ora({
       text: "Deploying service...",
       spinner: "dots",
@@ -255,7 +617,9 @@ export class CloudRunService {
             errorMessage += `\nMessage: ${lastCondition.message}`;
           }
         }
-        throw new Error(errorMessage);
+        spinner.fail("Deployment timed out");
+        failure = errorMessage;
+        break;
       }
 
       try {
@@ -274,6 +638,13 @@ export class CloudRunService {
         if (status === "CONDITION_SUCCEEDED") {
           spinner.succeed("Service is active and ready!");
           break;
+        } else if (
+          status === "CONDITION_FAILED" && !serviceDetails.reconciling &&
+          String(serviceDetails.observedGeneration) === String(serviceDetails.generation)
+        ) {
+          spinner.fail("Deployment failed");
+          failure = `Service ${serviceName} failed to deploy: ${conditions[0].message || status}`;
+          break;
         } else {
           spinner.text = `Service status: ${status}. Waiting for service to become active...`;
         }
@@ -290,208 +661,382 @@ export class CloudRunService {
       await new Promise((resolve) => setTimeout(resolve, POLLING_INTERVAL));
     }
 
-    if (config.service.allow_unauthenticated) {
-      await this.allowUnauthenticated(servicePath);
+    if (failure) {
+      await this.printRevisionLogs(config, serviceDetails?.latestCreatedRevision, startTime);
+      throw new Error(failure);
     }
 
-    // Configure load balancer if specified
-    if (config.load_balancer) {
-      
-      await this.setupLoadBalancer(
-        projectId, 
-        serviceName, 
-        region, 
-        config.load_balancer.backend_service?.name,
-        config.load_balancer.backend_service?.existing
+    if (canary) {
+      await this.progressiveRollout(config, servicePath, canary.revision, canary.baseTraffic);
+    }
+
+    for (const change of await this.reconcileIam(config, servicePath)) {
+      console.log(
+        change.action === "add"
+          ? `Granted ${change.role} to ${change.member}`
+          : `Revoked ${change.role} from ${change.member}`,
       );
     }
 
-    console.log("Service URL: ", serviceDetails.uri);
-  }
+    if (config.schedules) {
+      const changes = await new SchedulerService(config, this.credentialsPath).reconcile(serviceDetails.uri || undefined);
+      changes.forEach((change) => console.log(formatScheduleChange(change)));
+    }
 
-  private async setupLoadBalancer(projectId: string, serviceName: string, region: string, backendServiceName?: string, existing?: boolean) {
-    const negName = `${serviceName}-neg`;
-    const newBackendServiceName = backendServiceName || `${serviceName}-backend-service`;
-
-    // Create Serverless NEG for the Cloud Run service
-    console.log(`Creating Serverless NEG for service: ${serviceName}...`);
-    await this.executeCommand(`gcloud compute network-endpoint-groups create ${negName} \
-        --region=${region} \
-        --network-endpoint-type=serverless \
-        --cloud-run-service=${serviceName}`);
-    console.log(`Serverless NEG ${negName} created successfully.`);
-
-    // Create backend service with EXTERNAL_MANAGED scheme
-    console.log(`Creating backend service: ${newBackendServiceName}...`);
-    await this.executeCommand(`gcloud compute backend-services create ${newBackendServiceName} \
-        --global \
-        --load-balancing-scheme=EXTERNAL_MANAGED \
-        --port-name=http \
-        --protocol=HTTP`);
-
-    // Add NEG to backend service
-    console.log(`Adding Serverless NEG to backend service...`);
-    await this.executeCommand(`gcloud compute backend-services add-backend ${newBackendServiceName} \
-        --global \
-        --network-endpoint-group=${negName} \
-        --network-endpoint-group-region=${region}`);
-
-    if (existing) {
-        console.log(`Adding new backend service to existing load balancer...`);
-        try {
-            // First, list all forwarding rules to see what's available
-            console.log('Listing all forwarding rules...');
-            const allForwardingRules = await this.executeCommand(`gcloud compute forwarding-rules list --format="table(name,target)"`);
-            console.log('Available forwarding rules:', allForwardingRules);
-
-            // Get the forwarding rule without filtering first
-            const forwardingRules: any = await this.executeCommand(`gcloud compute forwarding-rules list --format="get(name,target)"`);
-            console.log('Found forwarding rules:', forwardingRules);
-
-            if (!forwardingRules.trim()) {
-                throw new Error('No forwarding rules found');
-            }
+    if (config.triggers) {
+      const changes = await new TriggerService(config, this.credentialsPath).reconcile(serviceDetails.uri);
+      changes.forEach((change) => console.log(formatTriggerChange(change)));
+    }
 
-            const rules = forwardingRules.trim().split('\n');
-            const targetRule = rules.find((rule: string) => rule.includes('test-lb') || rule.includes('http-proxy'));
-            
-            if (!targetRule) {
-                throw new Error('Could not find appropriate forwarding rule');
-            }
+    let ipAddress: string | undefined;
+    if (config.load_balancer) {
+      console.log("Configuring load balancer...");
+      const result = await LoadBalancerService.create(config, this.credentialsPath).apply(config);
+      console.log(result.actions.length > 0 ? formatLoadBalancerActions(result.actions) : "Load balancer is up to date.");
+      if (result.ipAddress) {
+        console.log(`Load balancer IP address: ${result.ipAddress}`);
+      }
+      ipAddress = result.ipAddress;
+    }
 
-            const [ruleName, targetProxy] = targetRule.split(/\s+/);
-            console.log(`Found rule: ${ruleName} with target: ${targetProxy}`);
+    if (customDomains(config).length > 0) {
+      await this.configureCustomDomains(config, ipAddress);
+    }
 
-            if (!targetProxy) {
-                throw new Error('Could not find target proxy for the load balancer');
-            }
+    console.log("Service URL: ", serviceDetails.uri);
+  }
 
-            // Extract the proxy name from the full path
-            const proxyName = targetProxy.split('/').pop();
-            console.log(`Using proxy name: ${proxyName}`);
+  // Maps the custom domains, or with a load balancer relies on its
+  // certificate, then prints the DNS records and waits for the certificate
+  private async configureCustomDomains(config: CloudRunConfig, ipAddress?: string) {
+    const domains = customDomains(config);
+    const timeout = config.custom_domain?.certificate_timeout !== undefined
+      ? parseDuration(config.custom_domain.certificate_timeout)
+      : CERTIFICATE_TIMEOUT;
 
-            // Get the URL map from the target proxy
-            const urlMapInfo = await this.executeCommand(`gcloud compute target-http-proxies describe ${proxyName} --format="get(urlMap)" --global`) as string;
-            console.log('URL Map Info:', urlMapInfo);
+    if (config.load_balancer) {
+      console.log("Add these DNS records for the custom domains:");
+      console.log(domains.map((domain) => `  ${domain}  A  ${ipAddress || "<load balancer IP address>"}`).join("\n"));
+      const loadBalancer = LoadBalancerService.create(config, this.credentialsPath);
+      await this.waitForCertificate(domains.join(", "), timeout, () => loadBalancer.domainCertificateStatus(config));
+      return;
+    }
 
-            const urlMapName = urlMapInfo.trim().split('/').pop();
-            console.log(`Extracted URL map name: ${urlMapName}`);
+    const mappings = new DomainMappingService(config, this.credentialsPath);
+    for (const change of await mappings.apply()) {
+      console.log(
+        change.action === "create"
+          ? `Mapped ${change.domain} to service ${config.service.name}`
+          : `Removed domain mapping ${change.domain}`,
+      );
+    }
 
-            if (!urlMapName) {
-                throw new Error('Could not find URL map for the load balancer');
-            }
+    for (const domain of domains) {
+      let records = await mappings.dnsRecords(domain);
+      for (let attempt = 0; records.length === 0 && attempt < DNS_RECORD_ATTEMPTS; attempt++) {
+        await new Promise((resolve) => setTimeout(resolve, CERTIFICATE_POLLING_INTERVAL));
+        records = await mappings.dnsRecords(domain);
+      }
+      console.log(
+        records.length > 0
+          ? `Add these DNS records for ${domain}:\n${formatDnsRecords(records)}`
+          : `The DNS records for ${domain} aren't known yet. They will show in the domain mapping once they are.`,
+      );
+    }
+    for (const domain of domains) {
+      await this.waitForCertificate(domain, timeout, () => mappings.certificateStatus(domain));
+    }
+  }
 
-            // Update the URL map's default service
-            console.log(`Updating URL map ${urlMapName} with new backend service...`);
-            await this.executeCommand(`gcloud compute url-maps set-default-service ${urlMapName} \
-                --global \
-                --default-service=${newBackendServiceName}`);
+  // Polls until the certificate is provisioned. Provisioning waits for the
+  // DNS records, so running out of time is a warning, not a failed deploy.
+  private async waitForCertificate(label: string, timeout: number, status: () => Promise<CertificateStatus>) {
+    if (timeout <= 0) {
+      return;
+    }
+    const spinner = ora(`Waiting for the certificate of ${label}...`).start();
+    const deadline = Date.now() + timeout;
+    while (true) {
+      const current = await status();
+      if (current.ready) {
+        spinner.succeed(`Certificate for ${label} is provisioned`);
+        return;
+      }
+      if (Date.now() >= deadline) {
+        spinner.warn(
+          `Certificate for ${label} is not provisioned yet${current.message ? ` (${current.message})` : ""}. ` +
+            "It will be once the DNS records are in place.",
+        );
+        return;
+      }
+      spinner.text = `Waiting for the certificate of ${label}${current.message ? ` (${current.message})` : ""}...`;
+      await new Promise((resolve) => setTimeout(resolve, CERTIFICATE_POLLING_INTERVAL));
+    }
+  }
 
-            console.log(`Backend service ${newBackendServiceName} set as default for load balancer successfully.`);
-        } catch (error) {
-            console.error('Error updating load balancer:', error);
-            throw error;
-        }
-    } else {
-        // Create new load balancer components
-        const urlMapName = `${serviceName}-url-map`;
-        const targetProxyName = `${serviceName}-target-proxy`;
-        const forwardingRuleName = `${serviceName}-forwarding-rule`;
-        const ipAddressName = `${serviceName}-ip`;
-
-        // Reserve a global static IP address
-        console.log(`Creating static IP address: ${ipAddressName}...`);
-        await this.executeCommand(`gcloud compute addresses create ${ipAddressName} \
-            --global \
-            --ip-version=IPV4`);
-
-        // Get the reserved IP address
-        const ipAddress: string = await this.executeCommand(`gcloud compute addresses describe ${ipAddressName} \
-            --global \
-            --format="get(address)"`) as string;
-        console.log(`Reserved IP address: ${ipAddress.trim()}`);
-
-        // Create URL map
-        console.log(`Creating URL map: ${urlMapName}...`);
-        await this.executeCommand(`gcloud compute url-maps create ${urlMapName} \
-            --global \
-            --default-service=${newBackendServiceName}`);
-
-        // Create HTTP proxy
-        console.log(`Creating Target HTTP Proxy: ${targetProxyName}...`);
-        await this.executeCommand(`gcloud compute target-http-proxies create ${targetProxyName} \
-            --url-map=${urlMapName} \
-            --global`);
-
-        // Create forwarding rule with EXTERNAL_MANAGED scheme
-        console.log(`Creating Forwarding Rule: ${forwardingRuleName}...`);
-        await this.executeCommand(`gcloud compute forwarding-rules create ${forwardingRuleName} \
-            --load-balancing-scheme=EXTERNAL_MANAGED \
-            --network-tier=PREMIUM \
-            --address=${ipAddressName} \
-            --target-http-proxy=${targetProxyName} \
-            --global \
-            --ports=80`);
-
-        console.log(`New load balancer created successfully with IP: ${ipAddress.trim()}`);
-    }
-
-    console.log('Load balancer setup completed successfully.');
-  }
-
-  private createVolumeMounts(secrets: Array<{ name: string; version: string; mount_path?: string }>): Array<{ name: string; mountPath: string; readOnly: boolean }> {
-    return secrets.map((secret) => ({
-      name: secret.name,
-      mountPath: secret.mount_path || `/secrets/${secret.name}`,
-      readOnly: true,
-    }));
+  // Mounts of the container with the port: every `secrets` entry plus the
+  // volumes that set a path
+  private createVolumeMounts(config: CloudRunConfig): protos.google.cloud.run.v2.IVolumeMount[] {
+    return [
+      ...(config.secrets || []).map((secret) => ({
+        name: secretVolumeName(secret.name),
+        mountPath: secret.mount_path || `/secrets/${secret.name}`,
+      })),
+      ...(config.volumes || [])
+        .filter((volume) => volume.path)
+        .map((volume) => ({ name: volume.name, mountPath: volume.path })),
+    ];
   }
 
-  private createVolumeMountsFromVolumes(volumes: Array<{ name: string; path: string; type: string }>): Array<{ name: string; mountPath: string; readOnly: boolean }> {
-    return volumes.map((volume) => ({
-      name: volume.name,
-      mountPath: volume.path,
-      readOnly: volume.type === 'read-only',
-    }));
+  // volume_mounts name a `volumes` entry or a `secrets` entry
+  private resolveVolumeName(config: CloudRunConfig, name: string): string {
+    return (config.volumes || []).some((volume) => volume.name === name) ? name : secretVolumeName(name);
   }
 
-  private createVolumes(secrets: Array<{ name: string; version: string; mount_path?: string }>, volumes: Array<{ name: string; path: string; type: string; bucket?: string }>): Array<{ name: string; secret?: { secret: string }; gcs?: { bucket: string }; persistentVolumeClaim?: { claimName: string } }> {
-    const secretVolumes = secrets.map((secret) => ({
-      name: secret.name.replace(/[^a-zA-Z0-9_-]/g, "_"),
+  private createVolumes(config: CloudRunConfig): protos.google.cloud.run.v2.IVolume[] {
+    const secretVolumes = (config.secrets || []).map((secret) => ({
+      name: secretVolumeName(secret.name),
       secret: {
-        secret: secret.name.replace(/[^a-zA-Z0-9_-]/g, "_"),
+        secret: secret.name,
+        // Mount the requested version under the secret's name
+        items: [{ version: String(secret.version ?? "latest"), path: secret.name.split("/").pop() }],
       },
     }));
 
-    const volumeDefinitions = volumes.map((volume) => {
-      if (volume.bucket) {
-        return {
-          name: volume.name,
-          gcs: {
-            bucket: volume.bucket,
-          },
-        };
-      } else {
-        return {
-          name: volume.name,
-          persistentVolumeClaim: {
-            claimName: volume.name,
-          },
-        };
-      }
-    });
+    return [...secretVolumes, ...(config.volumes || []).map((volume) => this.createVolume(volume))];
+  }
 
-    return [...secretVolumes, ...volumeDefinitions];
+  private createVolume(volume: VolumeConfig): protos.google.cloud.run.v2.IVolume {
+    if (volume.secret) {
+      return {
+        name: volume.name,
+        secret: {
+          secret: volume.secret.secret,
+          ...(volume.secret.default_mode !== undefined && { defaultMode: volume.secret.default_mode }),
+          ...(volume.secret.items && {
+            items: volume.secret.items.map((item) => ({
+              path: item.path,
+              version: String(item.version ?? "latest"),
+              ...(item.mode !== undefined && { mode: item.mode }),
+            })),
+          }),
+        },
+      };
+    }
+    if (volume.gcs) {
+      return {
+        name: volume.name,
+        gcs: {
+          bucket: volume.gcs.bucket,
+          ...(volume.gcs.read_only !== undefined && { readOnly: volume.gcs.read_only }),
+          ...(volume.gcs.mount_options && { mountOptions: volume.gcs.mount_options }),
+        },
+      };
+    }
+    if (volume.nfs) {
+      return {
+        name: volume.name,
+        nfs: {
+          server: volume.nfs.server,
+          path: volume.nfs.path,
+          ...(volume.nfs.read_only !== undefined && { readOnly: volume.nfs.read_only }),
+        },
+      };
+    }
+    if (volume.cloudsql) {
+      return { name: volume.name, cloudSqlInstance: { instances: volume.cloudsql.instances } };
+    }
+    if ("in_memory" in volume) {
+      return {
+        name: volume.name,
+        emptyDir: {
+          medium: "MEMORY",
+          ...(volume.in_memory?.size_limit && { sizeLimit: volume.in_memory.size_limit }),
+        },
+      };
+    }
+    throw new Error(`Volume ${volume.name} must set one of ${VOLUME_KINDS.join(", ")}`);
   }
 
-  private createTrafficConfiguration(traffic: Array<{ revision: string; percent: number; tag?: string }>): any[] {
+  private createTrafficConfiguration(traffic: Array<{ revision?: string; percent: number; tag?: string }>): ITrafficTarget[] {
     return traffic.map((target) => ({
+      // Targets without a revision follow the latest ready revision
+      type: target.revision ? "TRAFFIC_TARGET_ALLOCATION_TYPE_REVISION" : "TRAFFIC_TARGET_ALLOCATION_TYPE_LATEST",
       revision: target.revision,
       percent: target.percent,
       tag: target.tag,
     }));
   }
 
+  // Current traffic split with every target pinned to a named revision, so
+  // creating a new revision doesn't move any traffic by itself
+  private pinnedTraffic(service: protos.google.cloud.run.v2.IService): ITrafficTarget[] {
+    const latestReady = service.latestReadyRevision?.split("/").pop();
+    return (service.trafficStatuses || [])
+      .map((status): ITrafficTarget => ({
+        type: "TRAFFIC_TARGET_ALLOCATION_TYPE_REVISION",
+        revision: status.revision || latestReady,
+        percent: status.percent || 0,
+        // The tag of an earlier canary is reused by the next one
+        ...(status.tag && status.tag !== CANARY_TAG && { tag: status.tag }),
+      }))
+      .filter((target) => target.revision && ((target.percent || 0) > 0 || target.tag));
+  }
+
+  // Replaces the traffic split, keeping the rest of the live service as is
+  private async setTraffic(servicePath: string, traffic: ITrafficTarget[]) {
+    const [current] = await this.client.getService({ name: servicePath });
+    const [operation] = await this.client.updateService({ service: { ...current, traffic } });
+    await operation.promise();
+  }
+
+  // Shifts traffic to the new revision step by step, checking its health after
+  // each step, and restores the previous split if any check fails
+  private async progressiveRollout(
+    config: CloudRunConfig,
+    servicePath: string,
+    revision: string,
+    baseTraffic: ITrafficTarget[],
+  ) {
+    const rollout = config.rollout!;
+    const interval = parseDuration(rollout.interval ?? "60s");
+    const startTime = Date.now();
+    const timeline: Array<{ at: number; message: string }> = [];
+    const record = (message: string) => {
+      timeline.push({ at: Date.now(), message });
+      console.log(message);
+    };
+
+    record(`Created revision ${revision} with no traffic`);
+    try {
+      await this.waitForRevision(servicePath, revision);
+      record(`Revision ${revision} is ready`);
+
+      for (const [index, percent] of rollout.steps.entries()) {
+        await this.setTraffic(servicePath, splitTraffic(baseTraffic, revision, percent, CANARY_TAG));
+        record(`Shifted ${percent}% of traffic to ${revision}`);
+
+        const isLastStep = index === rollout.steps.length - 1;
+        if (!isLastStep) {
+          record(`Waiting ${formatDuration(interval)} before checking health`);
+          await new Promise((resolve) => setTimeout(resolve, interval));
+        }
+        await this.checkRevisionHealth(config, servicePath, revision);
+        record(`Health checks passed at ${percent}%`);
+      }
+
+      // Hand traffic back to the latest revision so later deploys aren't pinned
+      await this.setTraffic(servicePath, [
+        ...baseTraffic.filter((target) => target.tag).map((target) => ({ ...target, percent: 0 })),
+        { type: "TRAFFIC_TARGET_ALLOCATION_TYPE_LATEST", percent: 100 },
+      ]);
+      record(`Promoted ${revision} to 100% of traffic`);
+    } catch (error) {
+      record(`Rollout failed: ${this.formatError(error)}`);
+      try {
+        await this.setTraffic(servicePath, baseTraffic);
+        record("Rolled traffic back to the previous revisions");
+      } catch (rollbackError) {
+        record(`Automatic rollback failed: ${this.formatError(rollbackError)}`);
+      }
+      throw new Error(`Rollout of revision ${revision} failed: ${this.formatError(error)}`);
+    } finally {
+      console.log("\nRollout timeline:");
+      for (const event of timeline) {
+        console.log(`  +${formatDuration(event.at - startTime).padEnd(7)} ${event.message}`);
+      }
+    }
+  }
+
+  private async getReadyCondition(servicePath: string, revision: string) {
+    const [details] = await this.revisionsClient.getRevision({ name: `${servicePath}/revisions/${revision}` });
+    return details.conditions?.find((condition) => condition.type === "Ready");
+  }
+
+  private async waitForRevision(servicePath: string, revision: string) {
+    const startTime = Date.now();
+    while (Date.now() - startTime < REVISION_READY_TIMEOUT) {
+      const ready = await this.getReadyCondition(servicePath, revision);
+      if (ready?.state === "CONDITION_SUCCEEDED") {
+        return;
+      }
+      if (ready?.state === "CONDITION_FAILED") {
+        throw new Error(`Revision ${revision} failed to become ready: ${ready.message}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, 5000));
+    }
+    throw new Error(`Revision ${revision} did not become ready within ${formatDuration(REVISION_READY_TIMEOUT)}`);
+  }
+
+  private async checkRevisionHealth(config: CloudRunConfig, servicePath: string, revision: string) {
+    const ready = await this.getReadyCondition(servicePath, revision);
+    if (ready?.state !== "CONDITION_SUCCEEDED") {
+      throw new Error(`Revision ${revision} is not ready: ${ready?.message || ready?.state || "no Ready condition"}`);
+    }
+
+    const healthCheck = config.rollout?.health_check;
+    if (!healthCheck) {
+      return;
+    }
+
+    let url = healthCheck.url;
+    if (!url) {
+      const [service] = await this.client.getService({ name: servicePath });
+      const canaryUri = service.trafficStatuses?.find((status) => status.tag === CANARY_TAG)?.uri;
+      if (!canaryUri) {
+        throw new Error(`No URL found for the ${CANARY_TAG} tag of revision ${revision}`);
+      }
+      url = `${canaryUri}${healthCheck.path || "/"}`;
+    }
+
+    // Private services need an ID token for the URL being checked
+    const headers: Record<string, string> = {};
+    if (!config.service.allow_unauthenticated) {
+      const idTokenClient = await this.auth.getIdTokenClient(new URL(url).origin);
+      Object.assign(headers, await idTokenClient.getRequestHeaders());
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(url, { headers, signal: AbortSignal.timeout(parseDuration(healthCheck.timeout ?? "5s")) });
+    } catch (error) {
+      throw new Error(`Health check ${url} failed: ${(error as Error).message}`);
+    }
+    await response.body?.cancel();
+
+    const expected = healthCheck.expected_status;
+    if (expected ? response.status !== expected : !response.ok) {
+      throw new Error(`Health check ${url} returned HTTP ${response.status}`);
+    }
+  }
+
+  // Prints the recent logs of the revision a deploy created, so a failing
+  // container shows why it didn't start. Errors reading them are reported
+  // without hiding the deploy failure.
+  private async printRevisionLogs(config: CloudRunConfig, revisionPath: string | undefined, since: number) {
+    const revision = revisionPath?.split("/").pop();
+    if (!revision) {
+      return;
+    }
+
+    try {
+      const entries = await new LogService(config, this.credentialsPath).list({
+        revision,
+        since: `${Math.ceil((Date.now() - since) / 1000) + 60}s`,
+        limit: 50,
+      });
+      if (entries.length === 0) {
+        console.error(`No logs from revision ${revision} yet.`);
+        return;
+      }
+      console.error(`\nRecent logs of revision ${revision}:`);
+      entries.forEach((entry) => console.error(formatLogEntry(entry, process.stderr.isTTY === true)));
+      console.error(`\nRun \`cloudrunify logs --revision ${revision}\` for more.`);
+    } catch (error) {
+      console.error(`Could not read the logs of revision ${revision}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
   private formatError(error: any): string {
     if (error.code && error.details) {
       return `Error (${error.code}): ${error.details}`;
@@ -502,7 +1047,8 @@ export class CloudRunService {
     return `Deployment failed: ${JSON.stringify(error)}`;
   }
 
-  async getRevisions(config: CloudRunConfig): Promise<string[]> {
+  // Lists the service's revisions, newest first
+  async getRevisions(config: CloudRunConfig): Promise<RevisionStatus[]> {
     const projectId = config.project_id;
     const region = config.region;
     const serviceName = config.service.name;
@@ -512,174 +1058,321 @@ export class CloudRunService {
 
     try {
       const [revisions] = await this.revisionsClient.listRevisions(request);
-      //@ts-ignore
-      return revisions.map((revision) => revision.name);
+      return revisions
+        .map((revision) => this.describeRevision(revision))
+        .sort((a, b) => (b.createTime || "").localeCompare(a.createTime || ""));
     } catch (error: unknown) {
       console.error("Error fetching service revisions:", error);
       throw error;
     }
   }
 
-  async rollback(config: CloudRunConfig, revision: string) {
+  // Routes `percent` of traffic to a revision, given by name, by traffic tag
+  // or as "previous" (the newest ready revision older than the one serving
+  // most traffic). The rest of the traffic keeps its current split, and tagged
+  // targets are preserved.
+  async rollback(config: CloudRunConfig, target: string, percent = 100): Promise<RollbackResult> {
     const projectId = config.project_id;
     const region = config.region;
     const serviceName = config.service.name;
+    const servicePath = `projects/${projectId}/locations/${region}/services/${serviceName}`;
 
     try {
-      const response = await this.client.updateService({
-        service: {
-          name: `projects/${projectId}/locations/${region}/services/${serviceName}`,
-          traffic: [
-            {
-              revision: revision,
-              percent: 100,
-            },
-          ],
-        },
-      });
+      const [service] = await this.client.getService({ name: servicePath });
+      const revisions = await this.getRevisions(config);
+      const before = this.describeTraffic(service);
+
+      const revision = rollbackRevision(service, revisions, target);
+
+      // Untagged traffic already on the revision is folded into `percent`
+      const baseTraffic = this.pinnedTraffic(service)
+        .filter((entry) => entry.tag || entry.revision !== revision);
+      if (percent < 100 && !baseTraffic.some((entry) => (entry.percent || 0) > 0)) {
+        throw new Error(`No other revision serves traffic to keep the remaining ${100 - percent}%`);
+      }
+
+      await this.setTraffic(servicePath, splitTraffic(baseTraffic, revision, percent));
+      const [updated] = await this.client.getService({ name: servicePath });
 
-      console.log(`Service ${serviceName} rolled back to revision ${revision}:`, response);
+      console.log(`Service ${serviceName} routed ${percent}% of traffic to revision ${revision}`);
+      return { revision, before, after: this.describeTraffic(updated) };
     } catch (error: unknown) {
-      console.error("Error during rollback:", error);
+      console.error("Error during rollback:", this.formatError(error));
       throw error;
     }
   }
 
-  async getStatus(config: CloudRunConfig) {
+  private describeRevision(revision: protos.google.cloud.run.v2.IRevision): RevisionStatus {
+    const container = revision.containers?.find((candidate) => candidate.ports?.length) || revision.containers?.[0];
+    const ready = revision.conditions?.find((condition) => condition.type === "Ready");
+    return {
+      name: (revision.name || "").split("/").pop() || "",
+      image: container?.image || "",
+      digest: parseImage(container?.image || "").digest,
+      createTime: timestampToIso(revision.createTime),
+      scaling: {
+        min_instances: revision.scaling?.minInstanceCount ?? undefined,
+        max_instances: revision.scaling?.maxInstanceCount ?? undefined,
+      },
+      ready: String(ready?.state || "UNKNOWN"),
+      conditions: (revision.conditions || []).map((condition) => ({
+        type: condition.type || "",
+        state: String(condition.state || ""),
+        ...(condition.message && { message: condition.message }),
+      })),
+    };
+  }
+
+  private describeTraffic(service: protos.google.cloud.run.v2.IService): TrafficStatus[] {
+    const latestReady = service.latestReadyRevision?.split("/").pop();
+    return (service.trafficStatuses || []).map((status) => ({
+      revision: status.revision || (
+        status.type === "TRAFFIC_TARGET_ALLOCATION_TYPE_LATEST" ? `LATEST (${latestReady})` : ""
+      ),
+      percent: status.percent || 0,
+      ...(status.tag && { tag: status.tag }),
+      ...(status.uri && { url: status.uri }),
+    }));
+  }
+
+  // Probes of the service template, i.e. of revisions deployed from now on
+  private describeProbes(service: protos.google.cloud.run.v2.IService): ProbeStatus[] {
+    const containers = service.template?.containers || [];
+    return containers.flatMap((container) => {
+      const port = container.ports?.[0]?.containerPort;
+      const probes: ProbeStatus[] = [];
+      if (container.startupProbe) {
+        probes.push({ container: container.name || undefined, kind: "startup", check: describeProbe(container.startupProbe, port) });
+      }
+      if (container.livenessProbe) {
+        probes.push({ container: container.name || undefined, kind: "liveness", check: describeProbe(container.livenessProbe, port) });
+      }
+      return probes;
+    });
+  }
+
+  // Collects the service's URL, traffic split, recent revisions and invokers
+  // into a report that can be printed as a table or serialized.
+  async getStatus(config: CloudRunConfig, revisionLimit = 10): Promise<ServiceStatus> {
     const projectId = config.project_id;
     const region = config.region;
     const serviceName = config.service.name;
+    const servicePath = `projects/${projectId}/locations/${region}/services/${serviceName}`;
+    const shortName = (name?: string | null) => (name || "").split("/").pop() || "";
 
     try {
-      const [response] = await this.client.getService({
-        name: `projects/${projectId}/locations/${region}/services/${serviceName}`,
-      });
-      console.log(`Status of service ${serviceName}:`, response);
-      return response;
+      const [service] = await this.client.getService({ name: servicePath });
+      const revisions = await this.getRevisions(config);
+      const [policy] = await this.client.getIamPolicy({ resource: servicePath });
+
+      return {
+        name: serviceName,
+        url: service.uri || "",
+        latestReadyRevision: shortName(service.latestReadyRevision),
+        latestCreatedRevision: shortName(service.latestCreatedRevision),
+        traffic: this.describeTraffic(service),
+        probes: this.describeProbes(service),
+        revisions: revisions.slice(0, revisionLimit),
+        invokers: policy.bindings?.find((binding) => binding.role === INVOKER_ROLE)?.members || [],
+      };
     } catch (error: unknown) {
       console.error("Error fetching service status:", error);
       throw error;
     }
   }
 
-  async destroy(config: CloudRunConfig) {
+  // Fetches the live service and its IAM policy and diffs them against the
+  // template deploy would send.
+  async plan(config: CloudRunConfig, image?: ImageReference): Promise<ServicePlan> {
     const projectId = config.project_id;
-    const serviceName = config.service.name;
     const region = config.region;
-    const negName = `${serviceName}-neg`;
-    const backendServiceName = config.load_balancer?.backend_service?.name || `${serviceName}-backend-service`;
+    const serviceName = config.service.name;
+    const servicePath = `projects/${projectId}/locations/${region}/services/${serviceName}`;
+
+    const desired = this.flattenService(this.buildService(config, image), desiredIamBindings(config));
+
+    // Fields the config leaves unset are left to Cloud Run's defaults
+    const unmanaged: string[] = [];
+    if (!config.service.service_account) unmanaged.push("service_account");
+    if (!config.container.scaling) unmanaged.push("scaling");
+    const settings = config.service;
+    if (!settings.ingress) unmanaged.push("ingress");
+    if (!settings.timeout) unmanaged.push("timeout");
+    if (!settings.execution_environment) unmanaged.push("execution_environment");
+    if (settings.session_affinity === undefined) unmanaged.push("session_affinity");
+    if (settings.max_instance_request_concurrency === undefined && config.container.scaling?.concurrency === undefined) {
+      unmanaged.push("max_instance_request_concurrency");
+    }
+    if (!settings.vpc_access?.egress) unmanaged.push("vpc_access.egress");
+    if (!config.traffic || config.traffic.length === 0) unmanaged.push("traffic");
+    if (!config.iam?.authoritative) unmanaged.push("iam.bindings");
+    // Cloud Run adds a default TCP startup probe when none is configured
+    for (const container of config.containers || [config.container]) {
+      const prefix = container === config.container ? "" : `containers.${container.name}.`;
+      if (!container.probes?.startup) unmanaged.push(`${prefix}probes.startup`);
+      if (!container.probes?.liveness) unmanaged.push(`${prefix}probes.liveness`);
+      if (container.resources?.cpu_idle === undefined) unmanaged.push(`${prefix}resources.cpu_idle`);
+      if (container.resources?.startup_cpu_boost === undefined) unmanaged.push(`${prefix}resources.startup_cpu_boost`);
+    }
 
     try {
-        // First delete the Cloud Run service
-        console.log(`Deleting Cloud Run service ${serviceName}...`);
-        await this.client.deleteService({
-            name: `projects/${projectId}/locations/${region}/services/${serviceName}`,
-        });
-        console.log(`Service ${serviceName} deleted successfully.`);
-
-        // If load balancer was configured, clean up those resources
-        if (config.load_balancer) {
-            console.log('Cleaning up load balancer resources...');
-
-            // If this is a new load balancer (not existing), clean up all components
-            if (!config.load_balancer.backend_service?.existing) {
-                const urlMapName = `${serviceName}-url-map`;
-                const targetProxyName = `${serviceName}-target-proxy`;
-                const forwardingRuleName = `${serviceName}-forwarding-rule`;
-                const ipAddressName = `${serviceName}-ip`;
-
-                try {
-                    // Delete forwarding rule first
-                    console.log(`Deleting forwarding rule ${forwardingRuleName}...`);
-                    await this.executeCommand(`gcloud compute forwarding-rules delete ${forwardingRuleName} \
-                        --global \
-                        --quiet`);
-                } catch (error) {
-                    console.warn('Warning: Could not delete forwarding rule:', error);
-                }
-
-                try {
-                    // Delete target proxy
-                    console.log(`Deleting target proxy ${targetProxyName}...`);
-                    await this.executeCommand(`gcloud compute target-http-proxies delete ${targetProxyName} \
-                        --global \
-                        --quiet`);
-                } catch (error) {
-                    console.warn('Warning: Could not delete target proxy:', error);
-                }
-
-                try {
-                    // Delete URL map
-                    console.log(`Deleting URL map ${urlMapName}...`);
-                    await this.executeCommand(`gcloud compute url-maps delete ${urlMapName} \
-                        --global \
-                        --quiet`);
-                } catch (error) {
-                    console.warn('Warning: Could not delete URL map:', error);
-                }
-
-                try {
-                    // Delete static IP address
-                    console.log(`Deleting static IP address ${ipAddressName}...`);
-                    await this.executeCommand(`gcloud compute addresses delete ${ipAddressName} \
-                        --global \
-                        --quiet`);
-                } catch (error) {
-                    console.warn('Warning: Could not delete static IP address:', error);
-                }
-            }
+      const [liveService] = await this.client.getService({ name: servicePath });
+      const [policy] = await this.client.getIamPolicy({ resource: servicePath });
+      const bindings: Record<string, string[]> = {};
+      for (const binding of policy.bindings || []) {
+        bindings[binding.role || ""] = [...(bindings[binding.role || ""] || []), ...(binding.members || [])];
+      }
+      const live = this.flattenService(liveService, bindings);
+      return { exists: true, changes: diffRecords(live, desired, unmanaged) };
+    } catch (error: unknown) {
+      if ((error as { code?: number }).code === 5) {
+        return { exists: false, changes: diffRecords({}, desired, unmanaged) };
+      }
+      console.error("Error fetching live service:", error);
+      throw error;
+    }
+  }
 
-            // Remove the NEG from backend service
-            try {
-                console.log(`Removing NEG ${negName} from backend service...`);
-                await this.executeCommand(`gcloud compute backend-services remove-backend ${backendServiceName} \
-                    --global \
-                    --network-endpoint-group=${negName} \
-                    --network-endpoint-group-region=${region}`);
-            } catch (error) {
-                console.warn('Warning: Could not remove NEG from backend service:', error);
-            }
+  // Reduces a service resource and the members of each role in its IAM
+  // policy to a flat map of the fields cloudrunify manages, so the config and
+  // the live service can be compared key by key.
+  private flattenService(
+    service: protos.google.cloud.run.v2.IService,
+    iamBindings: Record<string, string[]>,
+  ): Record<string, string> {
+    const fields: Record<string, string> = {};
+    const set = (path: string, value: unknown) => {
+      if (value !== undefined && value !== null && value !== "") {
+        fields[path] = String(value);
+      }
+    };
+    // The API returns fully qualified secret names, the config uses short ones
+    const shortName = (name?: string | null) => (name || "").split("/").pop();
+
+    const template = service.template || {};
+    const containers = template.containers || [];
+    const ingress = containers.find((container) => container.ports?.length) || containers[0] || {};
+
+    // The ingress container keeps the top-level keys, sidecars are listed
+    // under containers.<name>
+    for (const container of [ingress, ...containers.filter((container) => container !== ingress)]) {
+      const prefix = container === ingress ? "" : `containers.${container.name}.`;
+      set(`${prefix}image`, container.image);
+      set(`${prefix}port`, container.ports?.[0]?.containerPort);
+      set(`${prefix}resources.cpu`, container.resources?.limits?.cpu);
+      set(`${prefix}resources.memory`, container.resources?.limits?.memory);
+      set(`${prefix}resources.cpu_idle`, container.resources?.cpuIdle);
+      set(`${prefix}resources.startup_cpu_boost`, container.resources?.startupCpuBoost);
+      set(`${prefix}depends_on`, container.dependsOn?.join(", "));
+
+      for (const envVar of container.env || []) {
+        const secretRef = envVar.valueSource?.secretKeyRef;
+        set(
+          `${prefix}env.${envVar.name}`,
+          secretRef ? `secret:${shortName(secretRef.secret)}@${secretRef.version || "latest"}` : envVar.value,
+        );
+      }
 
-            // Delete the NEG
-            try {
-                console.log(`Deleting NEG ${negName}...`);
-                await this.executeCommand(`gcloud compute network-endpoint-groups delete ${negName} \
-                    --region=${region} \
-                    --quiet`);
-            } catch (error) {
-                console.warn('Warning: Could not delete NEG:', error);
-            }
+      for (const mount of container.volumeMounts || []) {
+        set(`${prefix}volume_mounts.${mount.name}`, mount.mountPath);
+      }
 
-            // Finally delete the backend service
-            if (!config.load_balancer.backend_service?.existing) {
-                try {
-                    console.log(`Deleting backend service ${backendServiceName}...`);
-                    await this.executeCommand(`gcloud compute backend-services delete ${backendServiceName} \
-                        --global \
-                        --quiet`);
-                } catch (error) {
-                    console.warn('Warning: Could not delete backend service:', error);
-                }
-            }
-        }
+      const containerPort = container.ports?.[0]?.containerPort;
+      if (container.startupProbe) {
+        set(`${prefix}probes.startup`, describeProbe(container.startupProbe, containerPort));
+      }
+      if (container.livenessProbe) {
+        set(`${prefix}probes.liveness`, describeProbe(container.livenessProbe, containerPort));
+      }
+    }
 
-        console.log('All resources cleaned up successfully.');
-    } catch (error) {
-        console.error("Error during cleanup:", error);
-        throw error;
+    for (const volume of template.volumes || []) {
+      set(`volumes.${volume.name}`, describeVolume(volume));
+    }
+
+    set("scaling.min_instances", template.scaling?.minInstanceCount);
+    set("scaling.max_instances", template.scaling?.maxInstanceCount);
+    set("service_account", template.serviceAccount);
+    set("max_instance_request_concurrency", template.maxInstanceRequestConcurrency);
+    set("ingress", settingName(INGRESS_SETTINGS, service.ingress));
+    set("timeout", template.timeout?.seconds != null ? `${template.timeout.seconds}s` : undefined);
+    set(
+      "execution_environment",
+      template.executionEnvironment !== "EXECUTION_ENVIRONMENT_UNSPECIFIED"
+        ? settingName(EXECUTION_ENVIRONMENTS, template.executionEnvironment)
+        : undefined,
+    );
+    set("session_affinity", template.sessionAffinity);
+    set("encryption_key", template.encryptionKey);
+    set("vpc_access.connector", template.vpcAccess?.connector);
+    set("vpc_access.network", template.vpcAccess?.networkInterfaces?.[0]?.network);
+    set("vpc_access.subnet", template.vpcAccess?.networkInterfaces?.[0]?.subnetwork);
+    set("vpc_access.network_tags", template.vpcAccess?.networkInterfaces?.[0]?.tags?.join(", "));
+    if (template.vpcAccess?.connector || template.vpcAccess?.networkInterfaces?.length) {
+      set("vpc_access.egress", settingName(VPC_EGRESS_SETTINGS, template.vpcAccess.egress));
+    }
+    for (const [key, value] of Object.entries(service.labels || {})) {
+      set(`labels.${key}`, value);
+    }
+    for (const [key, value] of Object.entries(service.annotations || {})) {
+      set(`annotations.${key}`, value);
+    }
+
+    for (const target of service.traffic || []) {
+      const revision = target.revision ? shortName(target.revision) : "latest";
+      set(`traffic.${target.tag || revision}`, `${revision} ${target.percent || 0}%`);
+    }
+
+    set("iam.allow_unauthenticated", (iamBindings[INVOKER_ROLE] || []).includes("allUsers"));
+    for (const [role, members] of Object.entries(iamBindings)) {
+      for (const member of members) {
+        if (!(role === INVOKER_ROLE && member === "allUsers")) {
+          set(`iam.bindings.${role}.${member}`, "granted");
+        }
+      }
     }
+
+    return fields;
   }
 
-  private executeCommand(command: string) {
-    return new Promise((resolve, reject) => {
-      exec(command, (error: any, stdout: string, stderr: string) => {
-        if (error) {
-          console.error(`Error executing command: ${command}`, error);
-          return reject(error);
+  async destroy(config: CloudRunConfig) {
+    const servicePath = `projects/${config.project_id}/locations/${config.region}/services/${config.service.name}`;
+
+    try {
+      if (config.schedules) {
+        for (const name of await new SchedulerService(config, this.credentialsPath).destroy()) {
+          console.log(`Deleted schedule ${name}`);
         }
-        console.log(`Command output: ${stdout}`);
-        resolve(stdout);
-      });
-    });
+      }
+
+      if (config.triggers) {
+        const changes = await new TriggerService(config, this.credentialsPath).destroy();
+        changes.forEach((change) => console.log(formatTriggerChange(change)));
+      }
+
+      if (config.custom_domain && !config.load_balancer) {
+        for (const domain of await new DomainMappingService(config, this.credentialsPath).destroy()) {
+          console.log(`Removed domain mapping ${domain}`);
+        }
+      }
+
+      console.log(`Deleting Cloud Run service ${config.service.name}...`);
+      const [operation] = await this.client.deleteService({ name: servicePath });
+      await operation.promise();
+      console.log(`Service ${config.service.name} deleted successfully.`);
+
+      if (config.load_balancer) {
+        console.log("Cleaning up load balancer resources...");
+        const actions = await LoadBalancerService.create(config, this.credentialsPath).destroy(config);
+        if (actions.length > 0) {
+          console.log(formatLoadBalancerActions(actions));
+        }
+      }
+
+      console.log("All resources cleaned up successfully.");
+    } catch (error) {
+      console.error("Error during cleanup:", error);
+      throw error;
+    }
   }
 }
@@ -0,0 +1,153 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { CloudRunConfig } from "../config/parser.ts";
+import { reconcilePolicy, RevisionStatus, rollbackRevision, splitTraffic } from "./cloudrun.ts";
+
+const REVISION = "TRAFFIC_TARGET_ALLOCATION_TYPE_REVISION";
+
+Deno.test("splitTraffic spreads the rest over the base split and gives the rounding remainder to the largest", () => {
+  const base = [
+    { type: REVISION, revision: "api-00001", percent: 70 },
+    { type: REVISION, revision: "api-00002", percent: 30 },
+  ] as const;
+
+  assertEquals(splitTraffic([...base], "api-00003", 5).map(({ revision, percent }) => [revision, percent]), [
+    ["api-00001", 67],
+    ["api-00002", 28],
+    ["api-00003", 5],
+  ]);
+});
+
+Deno.test("splitTraffic keeps tagged targets left with no traffic and drops untagged ones", () => {
+  const base = [
+    { type: REVISION, revision: "api-00001", percent: 100 },
+    { type: REVISION, revision: "api-00002", percent: 0, tag: "blue" },
+  ] as const;
+
+  assertEquals(splitTraffic([...base], "api-00003", 100), [
+    { type: REVISION, revision: "api-00002", percent: 0, tag: "blue" },
+    { type: REVISION, revision: "api-00003", percent: 100 },
+  ]);
+});
+
+Deno.test("splitTraffic tags the new revision's target", () => {
+  const traffic = splitTraffic([{ type: REVISION, revision: "api-00001", percent: 100 }], "api-00002", 25, "canary");
+
+  assertEquals(traffic, [
+    { type: REVISION, revision: "api-00001", percent: 75 },
+    { type: REVISION, revision: "api-00002", percent: 25, tag: "canary" },
+  ]);
+});
+
+function revisionStatus(name: string, ready = "CONDITION_SUCCEEDED"): RevisionStatus {
+  return { name, image: `europe-docker.pkg.dev/my-project/apps/api:${name}`, scaling: {}, ready, conditions: [] };
+}
+
+const SERVICE = {
+  name: "projects/my-project/locations/europe-west1/services/api",
+  latestReadyRevision: "projects/my-project/locations/europe-west1/services/api/revisions/api-00004",
+  trafficStatuses: [
+    { revision: "api-00003", percent: 90 },
+    { revision: "api-00004", percent: 10, tag: "canary" },
+  ],
+};
+
+// Newest first, as getRevisions lists them
+const REVISIONS = [
+  revisionStatus("api-00004"),
+  revisionStatus("api-00003"),
+  revisionStatus("api-00002", "CONDITION_FAILED"),
+  revisionStatus("api-00001"),
+];
+
+Deno.test("rollbackRevision takes the newest ready revision older than the serving one as previous", () => {
+  assertEquals(rollbackRevision(SERVICE, REVISIONS, "previous"), "api-00001");
+  assertThrows(
+    () => rollbackRevision(SERVICE, REVISIONS.slice(0, 3), "previous"),
+    Error,
+    "No ready revision older than api-00003 to roll back to",
+  );
+});
+
+Deno.test("rollbackRevision resolves a traffic tag or a revision name", () => {
+  assertEquals(rollbackRevision(SERVICE, REVISIONS, "canary"), "api-00004");
+  assertEquals(rollbackRevision(SERVICE, REVISIONS, "api-00001"), "api-00001");
+  assertEquals(rollbackRevision(SERVICE, REVISIONS, `${SERVICE.name}/revisions/api-00003`), "api-00003");
+});
+
+Deno.test("rollbackRevision refuses a revision that doesn't exist or isn't ready", () => {
+  assertThrows(
+    () => rollbackRevision(SERVICE, REVISIONS, "api-00009"),
+    Error,
+    "Revision api-00009 not found for service api",
+  );
+  assertThrows(
+    () => rollbackRevision(SERVICE, REVISIONS, "api-00002"),
+    Error,
+    "Revision api-00002 is not ready (CONDITION_FAILED), refusing to route traffic to it",
+  );
+});
+
+function iamConfig(allowUnauthenticated: boolean, iam: CloudRunConfig["iam"]): CloudRunConfig {
+  return {
+    version: "1",
+    project_id: "my-project",
+    region: "europe-west1",
+    service: { name: "api", allow_unauthenticated: allowUnauthenticated },
+    container: { image: "europe-docker.pkg.dev/my-project/apps/api", port: 8080 },
+    iam,
+  } as CloudRunConfig;
+}
+
+const LIVE_POLICY = {
+  etag: "BwYA",
+  bindings: [
+    { role: "roles/run.invoker", members: ["allUsers", "group:ops@example.com"] },
+    { role: "roles/run.developer", members: ["user:dev@example.com"] },
+    {
+      role: "roles/run.invoker",
+      members: ["user:oncall@example.com"],
+      condition: { title: "business hours", expression: "request.time.getHours('UTC') < 18" },
+    },
+  ],
+};
+
+Deno.test("reconcilePolicy adds declared members and removes allUsers when unauthenticated access is off", () => {
+  const config = iamConfig(false, { invokers: ["serviceAccount:caller@my-project.iam.gserviceaccount.com"] });
+
+  const { bindings, changes } = reconcilePolicy(LIVE_POLICY, config);
+
+  assertEquals(changes, [
+    { action: "remove", role: "roles/run.invoker", member: "allUsers" },
+    { action: "add", role: "roles/run.invoker", member: "serviceAccount:caller@my-project.iam.gserviceaccount.com" },
+  ]);
+  assertEquals(bindings, [
+    {
+      role: "roles/run.invoker",
+      members: ["group:ops@example.com", "serviceAccount:caller@my-project.iam.gserviceaccount.com"],
+    },
+    LIVE_POLICY.bindings[1],
+    LIVE_POLICY.bindings[2],
+  ]);
+});
+
+Deno.test("reconcilePolicy changes nothing when the declared members are already bound", () => {
+  const config = iamConfig(true, { bindings: [{ role: "roles/run.developer", members: ["user:dev@example.com"] }] });
+
+  const { bindings, changes } = reconcilePolicy(LIVE_POLICY, config);
+
+  assertEquals(changes, []);
+  assertEquals(bindings, LIVE_POLICY.bindings);
+});
+
+Deno.test("reconcilePolicy removes undeclared members and conditional bindings when authoritative", () => {
+  const config = iamConfig(false, { invokers: ["group:ops@example.com"], authoritative: true });
+
+  const { bindings, changes } = reconcilePolicy(LIVE_POLICY, config);
+
+  assertEquals(changes, [
+    { action: "remove", role: "roles/run.invoker", member: "allUsers" },
+    { action: "remove", role: "roles/run.developer", member: "user:dev@example.com" },
+    { action: "remove", role: "roles/run.invoker", member: "user:oncall@example.com" },
+  ]);
+  assertEquals(bindings, [{ role: "roles/run.invoker", members: ["group:ops@example.com"] }]);
+});
@@ -0,0 +1,353 @@
+import {
+  BackendServicesClient,
+  GlobalAddressesClient,
+  GlobalForwardingRulesClient,
+  protos,
+  RegionNetworkEndpointGroupsClient,
+  SslCertificatesClient,
+  TargetHttpProxiesClient,
+  TargetHttpsProxiesClient,
+  UrlMapsClient,
+} from "npm:@google-cloud/compute";
+import { createAuth } from "../utils/credentials.ts";
+
+// Compute Engine resources making up a load balancer, by kind
+export interface ComputeResources {
+  networkEndpointGroup: protos.google.cloud.compute.v1.INetworkEndpointGroup;
+  backendService: protos.google.cloud.compute.v1.IBackendService;
+  address: protos.google.cloud.compute.v1.IAddress;
+  urlMap: protos.google.cloud.compute.v1.IUrlMap;
+  targetHttpProxy: protos.google.cloud.compute.v1.ITargetHttpProxy;
+  targetHttpsProxy: protos.google.cloud.compute.v1.ITargetHttpsProxy;
+  sslCertificate: protos.google.cloud.compute.v1.ISslCertificate;
+  forwardingRule: protos.google.cloud.compute.v1.IForwardingRule;
+}
+
+export type ComputeResourceKind = keyof ComputeResources;
+
+// Serverless NEGs are regional, everything else is global
+const COLLECTIONS: Record<ComputeResourceKind, string> = {
+  networkEndpointGroup: "networkEndpointGroups",
+  backendService: "backendServices",
+  address: "addresses",
+  urlMap: "urlMaps",
+  targetHttpProxy: "targetHttpProxies",
+  targetHttpsProxy: "targetHttpsProxies",
+  sslCertificate: "sslCertificates",
+  forwardingRule: "forwardingRules",
+};
+
+// The calls LoadBalancerService makes, so it can run against the real API,
+// a dry run or a local fake
+export interface ComputeApi {
+  readonly project: string;
+  readonly region: string;
+  get<K extends ComputeResourceKind>(kind: K, name: string): Promise<ComputeResources[K] | undefined>;
+  insert<K extends ComputeResourceKind>(kind: K, resource: ComputeResources[K] & { name: string }): Promise<void>;
+  // A PATCH, which leaves out empty lists: clearing one takes a replace
+  update<K extends ComputeResourceKind>(kind: K, name: string, changes: ComputeResources[K]): Promise<void>;
+  // A PUT of the whole resource, for backend services and URL maps
+  replace<K extends ComputeResourceKind>(kind: K, name: string, resource: ComputeResources[K]): Promise<void>;
+  // Resolves to false when the resource doesn't exist
+  delete(kind: ComputeResourceKind, name: string): Promise<boolean>;
+}
+
+// Partial URL of a resource, accepted wherever the API takes a reference
+export function resourcePath(api: Pick<ComputeApi, "project" | "region">, kind: ComputeResourceKind, name: string): string {
+  const scope = kind === "networkEndpointGroup" ? `regions/${api.region}` : "global";
+  return `projects/${api.project}/${scope}/${COLLECTIONS[kind]}/${name}`;
+}
+
+// The API returns references as full URLs
+export function isSameResource(reference: string | null | undefined, path: string): boolean {
+  return !!reference && (reference === path || reference.endsWith(`/${path}`));
+}
+
+// A reference as a partial URL, for comparing lists of references
+export function toResourcePath(reference: string): string {
+  return reference.replace(/^https:\/\/[^/]+\/compute\/[^/]+\//, "");
+}
+
+// REST calls report HTTP status codes, gRPC calls gRPC ones
+function isNotFound(error: unknown): boolean {
+  const code = (error as { code?: number }).code;
+  return code === 404 || code === 5;
+}
+
+interface Operation {
+  promise(): Promise<unknown>;
+}
+
+interface ResourceCalls {
+  get(name: string): Promise<unknown[]>;
+  insert(resource: unknown): Promise<[Operation, ...unknown[]]>;
+  update(name: string, changes: unknown): Promise<[Operation, ...unknown[]]>;
+  replace?(name: string, resource: unknown): Promise<[Operation, ...unknown[]]>;
+  delete(name: string): Promise<[Operation, ...unknown[]]>;
+}
+
+// The Compute Engine API. Calls wait for their operation to finish.
+export class GcpComputeApi implements ComputeApi {
+  private calls: Record<ComputeResourceKind, ResourceCalls>;
+
+  constructor(readonly project: string, readonly region: string, credentialsPath?: string) {
+    const auth = createAuth(credentialsPath);
+    const negs = new RegionNetworkEndpointGroupsClient({ auth });
+    const backendServices = new BackendServicesClient({ auth });
+    const addresses = new GlobalAddressesClient({ auth });
+    const urlMaps = new UrlMapsClient({ auth });
+    const targetHttpProxies = new TargetHttpProxiesClient({ auth });
+    const targetHttpsProxies = new TargetHttpsProxiesClient({ auth });
+    const sslCertificates = new SslCertificatesClient({ auth });
+    const forwardingRules = new GlobalForwardingRulesClient({ auth });
+    const notUpdatable = (kind: string) => () => {
+      throw new Error(`A ${kind} can't be updated in place, delete it to recreate it`);
+    };
+
+    this.calls = {
+      networkEndpointGroup: {
+        get: (name) => negs.get({ project, region, networkEndpointGroup: name }),
+        insert: (resource) =>
+          negs.insert({
+            project,
+            region,
+            networkEndpointGroupResource: resource as ComputeResources["networkEndpointGroup"],
+          }),
+        update: notUpdatable("network endpoint group"),
+        delete: (name) => negs.delete({ project, region, networkEndpointGroup: name }),
+      },
+      backendService: {
+        get: (name) => backendServices.get({ project, backendService: name }),
+        insert: (resource) =>
+          backendServices.insert({ project, backendServiceResource: resource as ComputeResources["backendService"] }),
+        // The security policy can only be changed through setSecurityPolicy.
+        // Patches carry the fingerprint of the live resource, read after the
+        // security policy changed it, or are rejected with 412.
+        update: async (name, changes) => {
+          const { securityPolicy, ...rest } = changes as ComputeResources["backendService"];
+          if (securityPolicy !== undefined) {
+            const [operation] = await backendServices.setSecurityPolicy({
+              project,
+              backendService: name,
+              securityPolicyReferenceResource: securityPolicy ? { securityPolicy } : {},
+            });
+            if (Object.keys(rest).length === 0) {
+              return [operation];
+            }
+            await operation.promise();
+          }
+          const [{ fingerprint }] = await backendServices.get({ project, backendService: name });
+          return backendServices.patch({ project, backendService: name, backendServiceResource: { ...rest, fingerprint } });
+        },
+        replace: async (name, resource) => {
+          const [{ fingerprint }] = await backendServices.get({ project, backendService: name });
+          return backendServices.update({
+            project,
+            backendService: name,
+            backendServiceResource: { ...resource as ComputeResources["backendService"], fingerprint },
+          });
+        },
+        delete: (name) => backendServices.delete({ project, backendService: name }),
+      },
+      address: {
+        get: (name) => addresses.get({ project, address: name }),
+        insert: (resource) => addresses.insert({ project, addressResource: resource as ComputeResources["address"] }),
+        update: notUpdatable("address"),
+        delete: (name) => addresses.delete({ project, address: name }),
+      },
+      urlMap: {
+        get: (name) => urlMaps.get({ project, urlMap: name }),
+        insert: (resource) => urlMaps.insert({ project, urlMapResource: resource as ComputeResources["urlMap"] }),
+        // Patches carry the fingerprint of the live resource, or are rejected with 412
+        update: async (name, changes) => {
+          const [{ fingerprint }] = await urlMaps.get({ project, urlMap: name });
+          return urlMaps.patch({
+            project,
+            urlMap: name,
+            urlMapResource: { ...changes as ComputeResources["urlMap"], fingerprint },
+          });
+        },
+        replace: async (name, resource) => {
+          const [{ fingerprint }] = await urlMaps.get({ project, urlMap: name });
+          return urlMaps.update({
+            project,
+            urlMap: name,
+            urlMapResource: { ...resource as ComputeResources["urlMap"], fingerprint },
+          });
+        },
+        delete: (name) => urlMaps.delete({ project, urlMap: name }),
+      },
+      targetHttpProxy: {
+        get: (name) => targetHttpProxies.get({ project, targetHttpProxy: name }),
+        insert: (resource) =>
+          targetHttpProxies.insert({ project, targetHttpProxyResource: resource as ComputeResources["targetHttpProxy"] }),
+        update: (name, changes) =>
+          targetHttpProxies.setUrlMap({
+            project,
+            targetHttpProxy: name,
+            urlMapReferenceResource: { urlMap: (changes as ComputeResources["targetHttpProxy"]).urlMap },
+          }),
+        delete: (name) => targetHttpProxies.delete({ project, targetHttpProxy: name }),
+      },
+      targetHttpsProxy: {
+        get: (name) => targetHttpsProxies.get({ project, targetHttpsProxy: name }),
+        insert: (resource) =>
+          targetHttpsProxies.insert({
+            project,
+            targetHttpsProxyResource: resource as ComputeResources["targetHttpsProxy"],
+          }),
+        update: async (name, changes) => {
+          const { urlMap, sslCertificates } = changes as ComputeResources["targetHttpsProxy"];
+          if (urlMap && sslCertificates) {
+            const [operation] = await targetHttpsProxies.setUrlMap({
+              project,
+              targetHttpsProxy: name,
+              urlMapReferenceResource: { urlMap },
+            });
+            await operation.promise();
+          }
+          return sslCertificates
+            ? targetHttpsProxies.setSslCertificates({
+              project,
+              targetHttpsProxy: name,
+              targetHttpsProxiesSetSslCertificatesRequestResource: { sslCertificates },
+            })
+            : targetHttpsProxies.setUrlMap({ project, targetHttpsProxy: name, urlMapReferenceResource: { urlMap } });
+        },
+        delete: (name) => targetHttpsProxies.delete({ project, targetHttpsProxy: name }),
+      },
+      sslCertificate: {
+        get: (name) => sslCertificates.get({ project, sslCertificate: name }),
+        insert: (resource) =>
+          sslCertificates.insert({ project, sslCertificateResource: resource as ComputeResources["sslCertificate"] }),
+        update: notUpdatable("SSL certificate"),
+        delete: (name) => sslCertificates.delete({ project, sslCertificate: name }),
+      },
+      forwardingRule: {
+        get: (name) => forwardingRules.get({ project, forwardingRule: name }),
+        insert: (resource) =>
+          forwardingRules.insert({ project, forwardingRuleResource: resource as ComputeResources["forwardingRule"] }),
+        update: (name, changes) =>
+          forwardingRules.setTarget({
+            project,
+            forwardingRule: name,
+            targetReferenceResource: { target: (changes as ComputeResources["forwardingRule"]).target },
+          }),
+        delete: (name) => forwardingRules.delete({ project, forwardingRule: name }),
+      },
+    };
+  }
+
+  async get<K extends ComputeResourceKind>(kind: K, name: string): Promise<ComputeResources[K] | undefined> {
+    try {
+      const [resource] = await this.calls[kind].get(name);
+      return resource as ComputeResources[K];
+    } catch (error) {
+      if (isNotFound(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async insert<K extends ComputeResourceKind>(kind: K, resource: ComputeResources[K] & { name: string }) {
+    const [operation] = await this.calls[kind].insert(resource);
+    await operation.promise();
+  }
+
+  async update<K extends ComputeResourceKind>(kind: K, name: string, changes: ComputeResources[K]) {
+    const [operation] = await this.calls[kind].update(name, changes);
+    await operation.promise();
+  }
+
+  async replace<K extends ComputeResourceKind>(kind: K, name: string, resource: ComputeResources[K]) {
+    const replace = this.calls[kind].replace;
+    if (!replace) {
+      throw new Error(`A ${kind} can't be replaced, delete it to recreate it`);
+    }
+    const [operation] = await replace(name, resource);
+    await operation.promise();
+  }
+
+  async delete(kind: ComputeResourceKind, name: string): Promise<boolean> {
+    try {
+      const [operation] = await this.calls[kind].delete(name);
+      await operation.promise();
+      return true;
+    } catch (error) {
+      if (isNotFound(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+}
+
+// Keeps writes in memory on top of an optional `base` API serving reads.
+// Without a base it is a local fake of the Compute API. On top of the real
+// API it makes a dry run, and `operations` lists what would have been done.
+// Like the real API, updates leave out empty lists and a NEG used by a
+// backend service held here can't be deleted.
+export class InMemoryComputeApi implements ComputeApi {
+  readonly operations: string[] = [];
+  // null marks a resource deleted here but still present in the base
+  private resources = new Map<string, unknown>();
+
+  constructor(readonly project: string, readonly region: string, private base?: ComputeApi) {}
+
+  get<K extends ComputeResourceKind>(kind: K, name: string): Promise<ComputeResources[K] | undefined> {
+    const key = `${kind}/${name}`;
+    if (this.resources.has(key)) {
+      const resource = this.resources.get(key);
+      return Promise.resolve(resource === null ? undefined : structuredClone(resource) as ComputeResources[K]);
+    }
+    return this.base?.get(kind, name) ?? Promise.resolve(undefined);
+  }
+
+  async insert<K extends ComputeResourceKind>(kind: K, resource: ComputeResources[K] & { name: string }) {
+    if (await this.get(kind, resource.name)) {
+      throw Object.assign(new Error(`The ${kind} ${resource.name} already exists`), { code: 409 });
+    }
+    const selfLink = `https://www.googleapis.com/compute/v1/${resourcePath(this, kind, resource.name)}`;
+    this.resources.set(`${kind}/${resource.name}`, { ...structuredClone(resource), selfLink });
+    this.operations.push(`insert ${kind} ${resource.name}`);
+  }
+
+  async update<K extends ComputeResourceKind>(kind: K, name: string, changes: ComputeResources[K]) {
+    const current = await this.get(kind, name);
+    if (!current) {
+      throw Object.assign(new Error(`The ${kind} ${name} was not found`), { code: 404 });
+    }
+    const sent = Object.entries(structuredClone(changes)).filter(([, value]) => !(Array.isArray(value) && value.length === 0));
+    this.resources.set(`${kind}/${name}`, { ...current, ...Object.fromEntries(sent) });
+    this.operations.push(`update ${kind} ${name}`);
+  }
+
+  async replace<K extends ComputeResourceKind>(kind: K, name: string, resource: ComputeResources[K]) {
+    if (!await this.get(kind, name)) {
+      throw Object.assign(new Error(`The ${kind} ${name} was not found`), { code: 404 });
+    }
+    const selfLink = `https://www.googleapis.com/compute/v1/${resourcePath(this, kind, name)}`;
+    this.resources.set(`${kind}/${name}`, { ...structuredClone(resource), name, selfLink });
+    this.operations.push(`replace ${kind} ${name}`);
+  }
+
+  async delete(kind: ComputeResourceKind, name: string): Promise<boolean> {
+    if (!await this.get(kind, name)) {
+      return false;
+    }
+    if (kind === "networkEndpointGroup" && this.backendServiceUsing(resourcePath(this, kind, name))) {
+      throw Object.assign(new Error(`The ${kind} ${name} is in use by a backend service`), { code: 400 });
+    }
+    this.resources.set(`${kind}/${name}`, null);
+    this.operations.push(`delete ${kind} ${name}`);
+    return true;
+  }
+
+  private backendServiceUsing(negPath: string): boolean {
+    return [...this.resources].some(([key, resource]) =>
+      key.startsWith("backendService/") && resource !== null &&
+      ((resource as ComputeResources["backendService"]).backends || []).some((backend) => isSameResource(backend.group, negPath))
+    );
+  }
+}
@@ -0,0 +1,152 @@
+import { GoogleAuth } from "npm:google-auth-library";
+import { CloudRunConfig } from "../config/parser.ts";
+import { createAuth } from "../utils/credentials.ts";
+
+// Hostnames of custom_domain: `domain` first, then `domains`
+export function customDomains(config: CloudRunConfig): string[] {
+  const { domain, domains = [] } = config.custom_domain || {};
+  return [...new Set([...(domain ? [domain] : []), ...domains])];
+}
+
+// Names are relative to the registered domain, e.g. "www" for
+// www.example.com and empty for example.com itself
+export interface DnsRecord {
+  name: string;
+  type: string;
+  rrdata: string;
+}
+
+interface Condition {
+  type: string;
+  status: "True" | "False" | "Unknown";
+  message?: string;
+}
+
+interface DomainMapping {
+  metadata: { name: string; namespace?: string };
+  spec: { routeName: string; certificateMode?: string };
+  status?: { conditions?: Condition[]; resourceRecords?: DnsRecord[] };
+}
+
+export interface DomainMappingChange {
+  action: "create" | "delete";
+  domain: string;
+}
+
+export interface CertificateStatus {
+  ready: boolean;
+  message?: string;
+}
+
+export function formatDnsRecords(records: DnsRecord[]): string {
+  return records.map((record) => `  ${record.name || "@"}  ${record.type}  ${record.rrdata}`).join("\n");
+}
+
+// Cloud Run domain mappings, which the v2 API doesn't cover, through the
+// regional v1 endpoint
+export class DomainMappingService {
+  private auth: GoogleAuth;
+  private baseUrl: string;
+
+  constructor(private config: CloudRunConfig, credentialsPath?: string) {
+    this.auth = createAuth(credentialsPath);
+    this.baseUrl =
+      `https://${config.region}-run.googleapis.com/apis/domains.cloudrun.com/v1/namespaces/${config.project_id}/domainmappings`;
+  }
+
+  // Maps each custom domain to the service and deletes the mappings to the
+  // service for domains no longer listed. A domain mapped to another service
+  // is an error, it has to be unmapped there first.
+  async apply(): Promise<DomainMappingChange[]> {
+    const service = this.config.service.name;
+    const domains = customDomains(this.config);
+    const changes: DomainMappingChange[] = [];
+
+    try {
+      for (const domain of domains) {
+        const mapping = await this.get(domain);
+        if (mapping && mapping.spec.routeName !== service) {
+          throw new Error(`Domain ${domain} is already mapped to service ${mapping.spec.routeName}`);
+        }
+        if (!mapping) {
+          await this.create(domain);
+          changes.push({ action: "create", domain });
+        }
+      }
+
+      for (const mapping of await this.list()) {
+        if (mapping.spec.routeName === service && !domains.includes(mapping.metadata.name)) {
+          await this.request("DELETE", `${this.baseUrl}/${mapping.metadata.name}`);
+          changes.push({ action: "delete", domain: mapping.metadata.name });
+        }
+      }
+    } catch (error) {
+      console.error("Error mapping custom domains:", error);
+      throw error;
+    }
+
+    return changes;
+  }
+
+  // The records to add at the DNS provider, empty until Cloud Run has
+  // worked them out
+  async dnsRecords(domain: string): Promise<DnsRecord[]> {
+    return (await this.get(domain))?.status?.resourceRecords || [];
+  }
+
+  async certificateStatus(domain: string): Promise<CertificateStatus> {
+    const conditions = (await this.get(domain))?.status?.conditions || [];
+    const condition = conditions.find((condition) => condition.type === "CertificateProvisioned");
+    return { ready: condition?.status === "True", message: condition?.message };
+  }
+
+  // Deletes the mappings to the service, whether the config still lists
+  // their domains or not
+  async destroy(): Promise<string[]> {
+    const deleted: string[] = [];
+    for (const mapping of await this.list()) {
+      if (mapping.spec.routeName === this.config.service.name) {
+        await this.request("DELETE", `${this.baseUrl}/${mapping.metadata.name}`);
+        deleted.push(mapping.metadata.name);
+      }
+    }
+    return deleted;
+  }
+
+  private async get(domain: string): Promise<DomainMapping | undefined> {
+    try {
+      return await this.request<DomainMapping>("GET", `${this.baseUrl}/${domain}`);
+    } catch (error) {
+      if ((error as { response?: { status?: number } }).response?.status === 404) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private async list(): Promise<DomainMapping[]> {
+    return (await this.request<{ items?: DomainMapping[] }>("GET", this.baseUrl)).items || [];
+  }
+
+  private async create(domain: string) {
+    try {
+      await this.request("POST", this.baseUrl, {
+        apiVersion: "domains.cloudrun.com/v1",
+        kind: "DomainMapping",
+        metadata: { name: domain, namespace: this.config.project_id },
+        spec: { routeName: this.config.service.name, certificateMode: "AUTOMATIC" },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(
+        `Could not map ${domain}: ${message}. The domain must be verified in Search Console for the deploying account.`,
+      );
+    }
+  }
+
+  private async request<T>(method: "GET" | "POST" | "DELETE", url: string, data?: unknown): Promise<T> {
+    const client = await this.auth.getClient();
+    const response = await client.request<T>({ url, method, data });
+    return response.data;
+  }
+}
@@ -0,0 +1,133 @@
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { basename, dirname, join } from "node:path";
+import { Buffer } from "node:buffer";
+import { parse, stringify } from "npm:yaml";
+import { Environment } from "../config/parser.ts";
+import {
+  createKeyProvider,
+  generateDataKey,
+  KeyProvider,
+  KeyProviderOptions,
+  openWithKey,
+  sealWithKey,
+} from "./key_providers.ts";
+import { SecretSource } from "./secrets_manager.ts";
+
+// secrets.<env>.enc.yaml keeps secret names readable and encrypts each value
+// with a per-file data key. The data key is wrapped by a key provider, whose
+// name and key id are stored in the `cloudrunify` block:
+//
+//   DATABASE_URL: ENC[AES256_GCM,data:<base64>]
+//   cloudrunify:
+//     version: 1
+//     key_provider: local
+//     key_id: 3f2a...
+//     data_key: <wrapped>
+const METADATA_KEY = "cloudrunify";
+const FILE_VERSION = 1;
+const VALUE_PATTERN = /^ENC\[AES256_GCM,data:([A-Za-z0-9+/=]+)\]$/;
+const SECRET_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+export type SecretValues = Record<string, string>;
+
+interface SecretsFileMetadata {
+  version: number;
+  key_provider: string;
+  key_id: string;
+  data_key: string;
+}
+
+export interface EncryptedSecrets {
+  values: SecretValues;
+  provider: KeyProvider;
+  dataKey: Buffer;
+  wrappedDataKey: string;
+  sealed: Record<string, string>; // ciphertext of each value as stored
+}
+
+export function secretsFilePath(configPath: string, env: Environment): string {
+  return join(dirname(configPath), `secrets.${env}.enc.yaml`);
+}
+
+export function readSecretsFile(path: string, options: KeyProviderOptions = {}): Promise<EncryptedSecrets> {
+  return decryptSecrets(readFileSync(path, "utf-8"), options);
+}
+
+// Values are authenticated together with their name, so ciphertexts can't be
+// swapped between secrets without decryption failing
+export async function decryptSecrets(source: string, options: KeyProviderOptions = {}): Promise<EncryptedSecrets> {
+  const { [METADATA_KEY]: metadata, ...entries } = (parse(source) || {}) as Record<string, unknown>;
+  const meta = metadata as SecretsFileMetadata | undefined;
+  if (!meta?.key_provider || !meta.data_key) {
+    throw new Error(`Missing or incomplete ${METADATA_KEY} block, the file was not written by cloudrunify`);
+  }
+  if (meta.version !== FILE_VERSION) {
+    throw new Error(`Unsupported secrets file version ${meta.version}`);
+  }
+
+  const provider = createKeyProvider(meta.key_provider, options, meta.key_id);
+  const dataKey = await provider.unwrapKey(meta.data_key);
+  const values: SecretValues = {};
+  const sealed: Record<string, string> = {};
+  for (const [name, value] of Object.entries(entries)) {
+    const match = typeof value === "string" ? VALUE_PATTERN.exec(value) : null;
+    if (!match) {
+      throw new Error(`Value of ${name} is not encrypted`);
+    }
+    values[name] = openWithKey(dataKey, match[1], name).toString("utf-8");
+    sealed[name] = match[1];
+  }
+  return { values, provider, dataKey, wrappedDataKey: meta.data_key, sealed };
+}
+
+// Encrypts `values`. Passing the previously decrypted file keeps its data key
+// and the ciphertext of unchanged values, so diffs only show what changed.
+export async function encryptSecrets(values: SecretValues, provider: KeyProvider, previous?: EncryptedSecrets): Promise<string> {
+  for (const name of Object.keys(values)) {
+    if (name === METADATA_KEY || !SECRET_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid secret name "${name}", use letters, digits, - and _`);
+    }
+    if (typeof values[name] !== "string") {
+      throw new Error(`Value of ${name} must be a string`);
+    }
+  }
+
+  const reuse = previous && previous.provider.name === provider.name && previous.provider.keyId === provider.keyId;
+  const dataKey = reuse ? previous.dataKey : generateDataKey();
+  const document: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries(values).sort(([a], [b]) => a.localeCompare(b))) {
+    const unchanged = reuse && previous.values[name] === value;
+    const sealed = unchanged ? previous.sealed[name] : sealWithKey(dataKey, Buffer.from(value, "utf-8"), name);
+    document[name] = `ENC[AES256_GCM,data:${sealed}]`;
+  }
+
+  const metadata: SecretsFileMetadata = {
+    version: FILE_VERSION,
+    key_provider: provider.name,
+    key_id: provider.keyId,
+    data_key: reuse ? previous.wrappedDataKey : await provider.wrapKey(dataKey),
+  };
+  document[METADATA_KEY] = metadata;
+  return stringify(document);
+}
+
+export async function writeSecretsFile(path: string, values: SecretValues, provider: KeyProvider, previous?: EncryptedSecrets) {
+  writeFileSync(path, await encryptSecrets(values, provider, previous));
+}
+
+// Serves values of missing secrets to SecretsManagerService.syncSecrets. The
+// file is decrypted on first use only.
+export function secretsFileSource(path: string, options: KeyProviderOptions = {}): SecretSource | undefined {
+  if (!existsSync(path)) {
+    return undefined;
+  }
+  let values: Promise<SecretValues> | undefined;
+  return {
+    description: basename(path),
+    read: async (name) => {
+      values ??= readSecretsFile(path, options).then((secrets) => secrets.values);
+      const value = (await values)[name];
+      return value === undefined ? undefined : Buffer.from(value, "utf-8");
+    },
+  };
+}
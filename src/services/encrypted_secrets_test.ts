@@ -0,0 +1,73 @@
+import { assertEquals, assertNotEquals, assertRejects } from "@std/assert";
+import { join } from "node:path";
+import { parse, stringify } from "npm:yaml";
+import { decryptSecrets, encryptSecrets } from "./encrypted_secrets.ts";
+import { createKeyProvider, generateLocalKey } from "./key_providers.ts";
+
+const VALUES = { API_TOKEN: "token-123", DATABASE_URL: "postgres://app:secret@db/app" };
+
+// A fresh local key in a temporary directory, removed after the test
+async function withLocalKey(test: (keyFile: string, dir: string) => Promise<void>) {
+  const dir = await Deno.makeTempDir();
+  try {
+    await test(generateLocalKey(join(dir, "secrets.key")), dir);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+}
+
+Deno.test("decryptSecrets reads back what encryptSecrets wrote with a local key", async () => {
+  await withLocalKey(async (keyFile) => {
+    const source = await encryptSecrets(VALUES, createKeyProvider("local", { keyFile }));
+
+    for (const value of Object.values(VALUES)) {
+      assertEquals(source.includes(value), false);
+    }
+    const decrypted = await decryptSecrets(source, { keyFile });
+    assertEquals(decrypted.values, VALUES);
+    assertEquals(decrypted.provider.name, "local");
+  });
+});
+
+Deno.test("encryptSecrets keeps the ciphertext of unchanged values", async () => {
+  await withLocalKey(async (keyFile) => {
+    const provider = createKeyProvider("local", { keyFile });
+    const previous = await decryptSecrets(await encryptSecrets(VALUES, provider), { keyFile });
+
+    const source = await encryptSecrets({ ...VALUES, API_TOKEN: "token-456" }, provider, previous);
+    const document = parse(source);
+    assertEquals(document.DATABASE_URL, `ENC[AES256_GCM,data:${previous.sealed.DATABASE_URL}]`);
+    assertNotEquals(document.API_TOKEN, `ENC[AES256_GCM,data:${previous.sealed.API_TOKEN}]`);
+    assertEquals((await decryptSecrets(source, { keyFile })).values.API_TOKEN, "token-456");
+  });
+});
+
+Deno.test("decryptSecrets rejects a file encrypted with another local key", async () => {
+  await withLocalKey(async (keyFile, dir) => {
+    const source = await encryptSecrets(VALUES, createKeyProvider("local", { keyFile }));
+    const otherKeyFile = generateLocalKey(join(dir, "other.key"));
+
+    await assertRejects(() => decryptSecrets(source, { keyFile: otherKeyFile }), Error, "encrypted with local key");
+  });
+});
+
+Deno.test("decryptSecrets rejects the data key unwrapped with another local key", async () => {
+  await withLocalKey(async (keyFile, dir) => {
+    const source = await encryptSecrets(VALUES, createKeyProvider("local", { keyFile }));
+    const otherKeyFile = generateLocalKey(join(dir, "other.key"));
+    // Claim the other key's id, so only the authenticated encryption stands in the way
+    const document = parse(source);
+    document.cloudrunify.key_id = createKeyProvider("local", { keyFile: otherKeyFile }).keyId;
+
+    await assertRejects(() => decryptSecrets(stringify(document), { keyFile: otherKeyFile }), Error, "Decryption failed");
+  });
+});
+
+Deno.test("decryptSecrets rejects ciphertexts swapped between secret names", async () => {
+  await withLocalKey(async (keyFile) => {
+    const document = parse(await encryptSecrets(VALUES, createKeyProvider("local", { keyFile })));
+    [document.API_TOKEN, document.DATABASE_URL] = [document.DATABASE_URL, document.API_TOKEN];
+
+    await assertRejects(() => decryptSecrets(stringify(document), { keyFile }), Error, "Decryption failed");
+  });
+});
@@ -0,0 +1,112 @@
+import { spawn } from "node:child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { stringify } from "npm:yaml";
+import { CloudRunConfig } from "../config/parser.ts";
+
+export type Builder = "docker" | "cloudbuild" | "pack";
+
+export type BuildConfig = NonNullable<CloudRunConfig["build"]>;
+
+const DEFAULT_PLATFORM = "linux/amd64";
+const DEFAULT_PACK_BUILDER = "gcr.io/buildpacks/builder:latest";
+
+export class ImageBuilderService {
+  // Builds the image described by `build` (defaults to `config.build`) and
+  // pushes it as `image`
+  async build(config: CloudRunConfig, image: string, build: BuildConfig = config.build || {}) {
+    const builder = build.builder || "docker";
+
+    console.log(`Building ${image} with ${builder}...`);
+    switch (builder) {
+      case "docker":
+        await this.buildWithDocker(build, image);
+        break;
+      case "cloudbuild":
+        await this.buildWithCloudBuild(build, image, config.project_id);
+        break;
+      case "pack":
+        await this.buildWithPack(build, image);
+        break;
+      default:
+        throw new Error(`Unknown builder: ${builder}`);
+    }
+    console.log(`Pushed ${image}`);
+  }
+
+  // Arguments for `docker build`. The Dockerfile path is relative to the
+  // build context, so the same config works locally and on Cloud Build.
+  private dockerBuildArgs(build: BuildConfig, image: string, dockerfile: string, context: string): string[] {
+    return [
+      "build",
+      "--platform", build.platform || DEFAULT_PLATFORM,
+      "-f", dockerfile,
+      "-t", image,
+      ...Object.entries(build.build_args || {}).flatMap(([key, value]) => ["--build-arg", `${key}=${value}`]),
+      ...(build.target ? ["--target", build.target] : []),
+      context,
+    ];
+  }
+
+  private async buildWithDocker(build: BuildConfig, image: string) {
+    const context = build.context || ".";
+    const dockerfile = join(context, build.dockerfile || "Dockerfile");
+    await this.run("docker", this.dockerBuildArgs(build, image, dockerfile, context));
+    await this.run("docker", ["push", image]);
+  }
+
+  // Submits the build context to Cloud Build, which builds and pushes the
+  // image without a local Docker daemon
+  private async buildWithCloudBuild(build: BuildConfig, image: string, projectId: string) {
+    const directory = mkdtempSync(join(tmpdir(), "cloudrunify-"));
+    const configPath = join(directory, "cloudbuild.yaml");
+    writeFileSync(
+      configPath,
+      stringify({
+        steps: [
+          {
+            name: "gcr.io/cloud-builders/docker",
+            args: this.dockerBuildArgs(build, image, build.dockerfile || "Dockerfile", "."),
+          },
+        ],
+        images: [image],
+      }),
+    );
+
+    try {
+      await this.run("gcloud", [
+        "builds", "submit", build.context || ".",
+        "--config", configPath,
+        "--project", projectId,
+      ]);
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  }
+
+  private async buildWithPack(build: BuildConfig, image: string) {
+    await this.run("pack", [
+      "build", image,
+      "--builder", build.pack_builder || DEFAULT_PACK_BUILDER,
+      "--path", build.context || ".",
+      ...(build.platform ? ["--platform", build.platform] : []),
+      ...Object.entries(build.build_args || {}).flatMap(([key, value]) => ["--env", `${key}=${value}`]),
+      "--publish",
+    ]);
+  }
+
+  private run(command: string, args: string[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(command, args, { stdio: "inherit" });
+      child.on("error", (error) => reject(new Error(`Failed to run ${command}: ${error.message}`)));
+      child.on("close", (code) => {
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(new Error(`${command} ${args[0]} exited with code ${code}`));
+        }
+      });
+    });
+  }
+}
@@ -0,0 +1,198 @@
+import { ExecutionsClient, JobsClient, protos } from "npm:@google-cloud/run@^1.5.0";
+import { CloudRunConfig } from "../config/parser.ts";
+import { createAuth } from "../utils/credentials.ts";
+import { ImageReference } from "../utils/image.ts";
+import { CloudRunService, timestampToIso } from "./cloudrun.ts";
+import { formatScheduleChange, SchedulerService } from "./scheduler.ts";
+
+const NOT_FOUND = 5;
+const EXECUTION_POLLING_INTERVAL = 5000;
+
+export type ExecutionState = "running" | "succeeded" | "failed" | "cancelled";
+
+export interface ExecutionStatus {
+  name: string;
+  state: ExecutionState;
+  createTime?: string;
+  completionTime?: string;
+  tasks: { total: number; running: number; succeeded: number; failed: number; cancelled: number; retried: number };
+  message?: string; // Why the execution failed
+  logUri?: string;
+}
+
+export interface RunJobOptions {
+  wait?: boolean;
+  onStatus?: (status: ExecutionStatus) => void; // Called when a polled status changes
+}
+
+// An execution is running until it has a completion time, then its
+// Completed condition tells success from failure
+export function describeExecution(execution: protos.google.cloud.run.v2.IExecution): ExecutionStatus {
+  const completed = execution.conditions?.find((condition) => condition.type === "Completed");
+  let state: ExecutionState = "running";
+  if (execution.completionTime) {
+    state = String(completed?.state) === "CONDITION_SUCCEEDED"
+      ? "succeeded"
+      : (execution.cancelledCount || 0) > 0 ? "cancelled" : "failed";
+  }
+
+  return {
+    name: (execution.name || "").split("/").pop() || "",
+    state,
+    createTime: timestampToIso(execution.createTime),
+    completionTime: timestampToIso(execution.completionTime),
+    tasks: {
+      total: execution.taskCount || 0,
+      running: execution.runningCount || 0,
+      succeeded: execution.succeededCount || 0,
+      failed: execution.failedCount || 0,
+      cancelled: execution.cancelledCount || 0,
+      retried: execution.retriedCount || 0,
+    },
+    ...(state !== "succeeded" && completed?.message && { message: completed.message }),
+    ...(execution.logUri && { logUri: execution.logUri }),
+  };
+}
+
+export function formatExecutionStatus(status: ExecutionStatus): string {
+  const { tasks } = status;
+  return `${status.name}: ${status.state}, ${tasks.succeeded}/${tasks.total} tasks succeeded, ` +
+    `${tasks.running} running, ${tasks.failed} failed${tasks.retried > 0 ? `, ${tasks.retried} retried` : ""}`;
+}
+
+// Cloud Run Jobs, for `kind: job` configs. The job template is built like a
+// service's revision template, by CloudRunService.buildJob.
+export class JobService {
+  private client: JobsClient;
+  private executionsClient: ExecutionsClient;
+  private builder: CloudRunService;
+
+  constructor(private credentialsPath?: string) {
+    try {
+      const auth = createAuth(credentialsPath);
+      this.client = new JobsClient({ auth });
+      this.executionsClient = new ExecutionsClient({ auth });
+      this.builder = new CloudRunService(credentialsPath);
+    } catch (error: unknown) {
+      console.error("Error initializing authentication:", error);
+      throw error;
+    }
+  }
+
+  // Creates the job, or replaces the template of the existing one. Running
+  // executions keep the template they started with.
+  async deploy(config: CloudRunConfig, image?: ImageReference) {
+    const jobName = config.service.name;
+    const location = `projects/${config.project_id}/locations/${config.region}`;
+    const jobPath = `${location}/jobs/${jobName}`;
+
+    if (!/^[a-z][a-z0-9-]{0,61}[a-z0-9]$/.test(jobName)) {
+      throw new Error(
+        `Invalid job name: "${jobName}". It must start with a letter, end with a letter or digit, and can only contain lowercase letters, digits, and hyphens.`,
+      );
+    }
+
+    const job = this.builder.buildJob(config, image);
+    try {
+      if (await this.getJob(jobPath)) {
+        console.log(`Updating job ${jobName}...`);
+        const [operation] = await this.client.updateJob({ job: { ...job, name: jobPath } });
+        await operation.promise();
+      } else {
+        console.log(`Creating job ${jobName}...`);
+        const [operation] = await this.client.createJob({ parent: location, jobId: jobName, job });
+        await operation.promise();
+      }
+      if (config.schedules) {
+        const changes = await new SchedulerService(config, this.credentialsPath).reconcile();
+        changes.forEach((change) => console.log(formatScheduleChange(change)));
+      }
+      console.log(`Job ${jobName} is ready. Start it with \`cloudrunify job run\`.`);
+    } catch (error) {
+      console.error("Error deploying job:", error);
+      throw error;
+    }
+  }
+
+  // Deletes the job along with its executions
+  async destroy(config: CloudRunConfig) {
+    const jobPath = this.jobPath(config);
+    try {
+      if (config.schedules) {
+        for (const name of await new SchedulerService(config, this.credentialsPath).destroy()) {
+          console.log(`Deleted schedule ${name}`);
+        }
+      }
+
+      console.log(`Deleting Cloud Run job ${config.service.name}...`);
+      const [operation] = await this.client.deleteJob({ name: jobPath });
+      await operation.promise();
+      console.log(`Job ${config.service.name} deleted successfully.`);
+    } catch (error) {
+      console.error("Error during cleanup:", error);
+      throw error;
+    }
+  }
+
+  // Starts an execution. With `wait`, polls it until it completes and
+  // reports each change of its task counts through `onStatus`.
+  async run(config: CloudRunConfig, options: RunJobOptions = {}): Promise<ExecutionStatus> {
+    const jobPath = this.jobPath(config);
+    try {
+      const [operation] = await this.client.runJob({ name: jobPath });
+      let executionPath = (operation.metadata as protos.google.cloud.run.v2.IExecution | null)?.name;
+      if (!executionPath) {
+        const [job] = await this.client.getJob({ name: jobPath });
+        executionPath = job.latestCreatedExecution?.name;
+      }
+      if (!executionPath) {
+        throw new Error(`Job ${config.service.name} started, but its execution could not be found`);
+      }
+
+      let [execution] = await this.executionsClient.getExecution({ name: executionPath });
+      let status = describeExecution(execution);
+      options.onStatus?.(status);
+      while (options.wait && status.state === "running") {
+        await new Promise((resolve) => setTimeout(resolve, EXECUTION_POLLING_INTERVAL));
+        [execution] = await this.executionsClient.getExecution({ name: executionPath });
+        const next = describeExecution(execution);
+        if (JSON.stringify(next) !== JSON.stringify(status)) {
+          options.onStatus?.(next);
+        }
+        status = next;
+      }
+      return status;
+    } catch (error) {
+      console.error("Error running job:", error);
+      throw error;
+    }
+  }
+
+  // Most recent executions first
+  async listExecutions(config: CloudRunConfig, limit = 10): Promise<ExecutionStatus[]> {
+    const [executions] = await this.executionsClient.listExecutions(
+      { parent: this.jobPath(config), pageSize: limit },
+      { autoPaginate: false },
+    );
+    return executions
+      .map(describeExecution)
+      .sort((a, b) => (b.createTime || "").localeCompare(a.createTime || ""))
+      .slice(0, limit);
+  }
+
+  private jobPath(config: CloudRunConfig): string {
+    return `projects/${config.project_id}/locations/${config.region}/jobs/${config.service.name}`;
+  }
+
+  private async getJob(jobPath: string): Promise<protos.google.cloud.run.v2.IJob | undefined> {
+    try {
+      const [job] = await this.client.getJob({ name: jobPath });
+      return job;
+    } catch (error) {
+      if ((error as { code?: number }).code === NOT_FOUND) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+}
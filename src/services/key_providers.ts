@@ -0,0 +1,156 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import * as process from "node:process";
+import { Buffer } from "node:buffer";
+import { createAuth } from "../utils/credentials.ts";
+
+// Wraps the data key of an encrypted secrets file. The provider name and key
+// id are stored in the file, so decrypting needs no extra options.
+export interface KeyProvider {
+  name: string;
+  keyId: string;
+  wrapKey(dataKey: Buffer): Promise<string>;
+  unwrapKey(wrapped: string): Promise<Buffer>;
+}
+
+export interface KeyProviderOptions {
+  keyFile?: string; // local provider
+  kmsKey?: string; // gcp-kms provider, projects/.../cryptoKeys/...
+  credentialsPath?: string;
+}
+
+export type KeyProviderFactory = (options: KeyProviderOptions, keyId?: string) => KeyProvider;
+
+export const LOCAL_KEY_ENV = "CLOUDRUNIFY_SECRETS_KEY";
+export const DEFAULT_LOCAL_KEY_FILE = join(homedir(), ".config", "cloudrunify", "secrets.key");
+
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+
+function concatBytes(...parts: ArrayLike<number>[]): Buffer {
+  const result = Buffer.alloc(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+// AES-256-GCM, encoded as base64 of iv | tag | ciphertext
+export function sealWithKey(key: Buffer, plaintext: Buffer, aad?: string): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  if (aad) {
+    cipher.setAAD(Buffer.from(aad));
+  }
+  const ciphertext = concatBytes(cipher.update(plaintext), cipher.final());
+  return concatBytes(iv, cipher.getAuthTag(), ciphertext).toString("base64");
+}
+
+export function openWithKey(key: Buffer, sealed: string, aad?: string): Buffer {
+  const raw = Buffer.from(sealed, "base64");
+  const decipher = createDecipheriv("aes-256-gcm", key, raw.subarray(0, IV_LENGTH));
+  decipher.setAuthTag(raw.subarray(IV_LENGTH, IV_LENGTH + 16));
+  if (aad) {
+    decipher.setAAD(Buffer.from(aad));
+  }
+  try {
+    return concatBytes(decipher.update(raw.subarray(IV_LENGTH + 16)), decipher.final());
+  } catch {
+    throw new Error("Decryption failed: wrong key or tampered data");
+  }
+}
+
+export function generateDataKey(): Buffer {
+  return randomBytes(KEY_LENGTH);
+}
+
+// Creates a new random local key file readable only by the current user
+export function generateLocalKey(path = DEFAULT_LOCAL_KEY_FILE): string {
+  if (existsSync(path)) {
+    throw new Error(`Key file ${path} already exists`);
+  }
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, randomBytes(KEY_LENGTH).toString("base64") + "\n", { mode: 0o600 });
+  return path;
+}
+
+// The local key comes from --secrets-key, CLOUDRUNIFY_SECRETS_KEY (base64) or
+// the default key file, so CI can inject it without touching the disk
+function readLocalKey(keyFile?: string): Buffer {
+  let encoded = keyFile ? undefined : process.env[LOCAL_KEY_ENV];
+  if (!encoded) {
+    const path = keyFile || DEFAULT_LOCAL_KEY_FILE;
+    if (!existsSync(path)) {
+      throw new Error(`Secrets key file not found: ${path}. Create one with \`cloudrunify secret keygen\` or set ${LOCAL_KEY_ENV}`);
+    }
+    encoded = readFileSync(path, "utf-8");
+  }
+
+  const key = Buffer.from(encoded.trim(), "base64");
+  if (key.length !== KEY_LENGTH) {
+    throw new Error(`Secrets key must be ${KEY_LENGTH} bytes encoded as base64`);
+  }
+  return key;
+}
+
+function localKeyProvider(options: KeyProviderOptions, keyId?: string): KeyProvider {
+  const key = readLocalKey(options.keyFile);
+  const fingerprint = createHash("sha256").update(key).digest("hex").slice(0, 16);
+  if (keyId && keyId !== fingerprint) {
+    throw new Error(`File was encrypted with local key ${keyId}, but the available key is ${fingerprint}`);
+  }
+
+  return {
+    name: "local",
+    keyId: fingerprint,
+    wrapKey: (dataKey) => Promise.resolve(sealWithKey(key, dataKey)),
+    unwrapKey: (wrapped) => Promise.resolve(openWithKey(key, wrapped)),
+  };
+}
+
+// Wraps the data key with a Cloud KMS symmetric key
+function gcpKmsKeyProvider(options: KeyProviderOptions, keyId?: string): KeyProvider {
+  const kmsKey = keyId || options.kmsKey;
+  if (!kmsKey) {
+    throw new Error("The gcp-kms key provider needs --kms-key projects/<project>/locations/<location>/keyRings/<ring>/cryptoKeys/<key>");
+  }
+  const auth = createAuth(options.credentialsPath);
+  const call = async (method: "encrypt" | "decrypt", data: Record<string, string>) => {
+    const client = await auth.getClient();
+    const response = await client.request<Record<string, string>>({
+      url: `https://cloudkms.googleapis.com/v1/${kmsKey}:${method}`,
+      method: "POST",
+      data,
+    });
+    return response.data;
+  };
+
+  return {
+    name: "gcp-kms",
+    keyId: kmsKey,
+    wrapKey: async (dataKey) => (await call("encrypt", { plaintext: dataKey.toString("base64") })).ciphertext,
+    unwrapKey: async (wrapped) => Buffer.from((await call("decrypt", { ciphertext: wrapped })).plaintext, "base64"),
+  };
+}
+
+const KEY_PROVIDERS: Record<string, KeyProviderFactory> = {
+  "local": localKeyProvider,
+  "gcp-kms": gcpKmsKeyProvider,
+};
+
+// Makes another key provider (e.g. a different KMS) available by name
+export function registerKeyProvider(name: string, factory: KeyProviderFactory) {
+  KEY_PROVIDERS[name] = factory;
+}
+
+export function createKeyProvider(name: string, options: KeyProviderOptions, keyId?: string): KeyProvider {
+  const factory = KEY_PROVIDERS[name];
+  if (!factory) {
+    throw new Error(`Unknown key provider "${name}". Available: ${Object.keys(KEY_PROVIDERS).join(", ")}`);
+  }
+  return factory(options, keyId);
+}
@@ -0,0 +1,573 @@
+import { readFileSync } from "node:fs";
+import { CloudRunConfig, SslCertificateConfig } from "../config/parser.ts";
+import { parseDuration } from "../utils/duration.ts";
+import { CertificateStatus, customDomains } from "./domain_mappings.ts";
+import {
+  ComputeApi,
+  ComputeResourceKind,
+  ComputeResources,
+  GcpComputeApi,
+  InMemoryComputeApi,
+  isSameResource,
+  resourcePath,
+  toResourcePath,
+} from "./compute.ts";
+
+export interface LoadBalancerAction {
+  action: "create" | "update" | "delete";
+  kind: ComputeResourceKind;
+  name: string;
+  detail?: string;
+}
+
+export interface LoadBalancerResult {
+  actions: LoadBalancerAction[];
+  ipAddress?: string; // Unknown in a dry run until the address exists
+}
+
+export interface LoadBalancerNames {
+  neg: string;
+  backendService: string;
+  urlMap: string;
+  targetProxy: string;
+  forwardingRule: string;
+  address: string;
+  httpsProxy: string;
+  httpsForwardingRule: string;
+  redirectUrlMap: string;
+}
+
+// Names set in `load_balancer`, else derived from load_balancer.name or the
+// service name
+export function loadBalancerNames(config: CloudRunConfig): LoadBalancerNames {
+  const lb = config.load_balancer || {};
+  const prefix = lb.name || config.service.name;
+  const defaults = backendNames(config.service.name);
+  return {
+    neg: lb.neg || defaults.neg,
+    backendService: lb.backend_service?.name || defaults.backendService,
+    urlMap: lb.url_map || `${prefix}-url-map`,
+    targetProxy: lb.target_proxy || `${prefix}-target-proxy`,
+    forwardingRule: lb.forwarding_rule || `${prefix}-forwarding-rule`,
+    address: lb.address || `${prefix}-ip`,
+    httpsProxy: lb.https_proxy || `${prefix}-https-proxy`,
+    httpsForwardingRule: lb.https_forwarding_rule || `${prefix}-https-forwarding-rule`,
+    redirectUrlMap: lb.redirect_url_map || `${prefix}-redirect-url-map`,
+  };
+}
+
+// The NEG and backend service of another service routed to by host_rules
+function backendNames(service: string): { neg: string; backendService: string } {
+  return { neg: `${service}-neg`, backendService: `${service}-backend-service` };
+}
+
+// Description of the NEGs and backend services a load balancer creates.
+// Another service's backend may be shared with other load balancers, so
+// destroy only deletes the ones carrying its own.
+function ownerDescription(names: LoadBalancerNames): string {
+  return `Created by cloudrunify for URL map ${names.urlMap}`;
+}
+
+// Other services the host rules route to, each getting its own NEG and
+// backend service
+function routedServices(config: CloudRunConfig): string[] {
+  const services = (config.load_balancer?.host_rules || []).flatMap((rule) => [
+    rule.service,
+    ...(rule.path_rules || []).map((pathRule) => pathRule.service),
+  ]);
+  return [...new Set(services)].filter((service) => service !== config.service.name);
+}
+
+// Certificate of the custom_domain hostnames behind the load balancer
+export function domainCertificateName(config: CloudRunConfig): string {
+  return config.custom_domain?.certificate || `${config.service.name}-domains-cert`;
+}
+
+// Certificates of the HTTPS proxy. A custom_domain.certificate set by name is
+// created for the custom domains when it doesn't exist yet and otherwise
+// left as it is, a derived one is managed like the ssl_certificates.
+function certificates(config: CloudRunConfig): SslCertificateConfig[] {
+  const list = [...(config.load_balancer?.ssl_certificates || [])];
+  const domains = customDomains(config);
+  const name = domainCertificateName(config);
+  if (domains.length > 0 && !list.some((certificate) => certificate.name === name)) {
+    list.push(config.custom_domain?.certificate ? { name } : { name, domains });
+  }
+  return list;
+}
+
+// Certificates this config creates, and so deletes on destroy
+function isOwnedCertificate(certificate: SslCertificateConfig): boolean {
+  return !!(certificate.domains || certificate.certificate);
+}
+
+const KIND_LABELS: Record<ComputeResourceKind, string> = {
+  networkEndpointGroup: "serverless NEG",
+  backendService: "backend service",
+  address: "IP address",
+  urlMap: "URL map",
+  targetHttpProxy: "target HTTP proxy",
+  targetHttpsProxy: "target HTTPS proxy",
+  sslCertificate: "SSL certificate",
+  forwardingRule: "forwarding rule",
+};
+
+export function formatLoadBalancerActions(actions: LoadBalancerAction[]): string {
+  const symbols = { create: "+", update: "~", delete: "-" };
+  return actions
+    .map((action) =>
+      `  ${symbols[action.action]} ${KIND_LABELS[action.kind]} ${action.name}${action.detail ? ` (${action.detail})` : ""}`
+    )
+    .join("\n");
+}
+
+type Diff<K extends ComputeResourceKind> = (
+  live: ComputeResources[K],
+) => { changes: ComputeResources[K]; detail: string } | undefined;
+
+function sameList(live: string[] | null | undefined, desired: string[]): boolean {
+  const normalize = (list: string[]) => list.map(toResourcePath).sort().join("\n");
+  return normalize(live || []) === normalize(desired);
+}
+
+// Host rules and path matchers as comparable JSON, with references as paths
+function describeRoutes(urlMap: ComputeResources["urlMap"]): string {
+  const path = (reference?: string | null) => reference ? toResourcePath(reference) : undefined;
+  return JSON.stringify({
+    hostRules: (urlMap.hostRules || []).map((rule) => ({ hosts: rule.hosts || [], pathMatcher: rule.pathMatcher })),
+    pathMatchers: (urlMap.pathMatchers || []).map((matcher) => ({
+      name: matcher.name,
+      defaultService: path(matcher.defaultService),
+      pathRules: (matcher.pathRules || []).map((rule) => ({ paths: rule.paths || [], service: path(rule.service) })),
+    })),
+  });
+}
+
+// Whether any route of the URL map, default or not, goes to the service
+function routesTo(urlMap: ComputeResources["urlMap"], service: string): boolean {
+  return isSameResource(urlMap.defaultService, service) ||
+    (urlMap.pathMatchers || []).some((matcher) =>
+      isSameResource(matcher.defaultService, service) ||
+      (matcher.pathRules || []).some((rule) => isSameResource(rule.service, service))
+    );
+}
+
+// Puts a Cloud Run service behind an external Application Load Balancer.
+// Every resource is fetched first and only created or updated when missing
+// or different, so deploying again is a no-op.
+export class LoadBalancerService {
+  private actions: LoadBalancerAction[] = [];
+
+  constructor(private api: ComputeApi) {}
+
+  // With `dryRun`, reads go to the API and writes are only reported
+  static create(config: CloudRunConfig, credentialsPath?: string, dryRun = false): LoadBalancerService {
+    const api = new GcpComputeApi(config.project_id, config.region, credentialsPath);
+    return new LoadBalancerService(dryRun ? new InMemoryComputeApi(config.project_id, config.region, api) : api);
+  }
+
+  // With backend_service.existing, the backend service becomes the default
+  // service of the existing `url_map` unless one of its routes already uses
+  // it. Otherwise the URL map, proxies, certificates, address and forwarding
+  // rules are managed too.
+  async apply(config: CloudRunConfig): Promise<LoadBalancerResult> {
+    this.actions = [];
+    const names = loadBalancerNames(config);
+    const backendPath = this.path("backendService", names.backendService);
+
+    await this.ensureBackend(config, names);
+    for (const service of routedServices(config)) {
+      await this.ensureBackend(config, { ...backendNames(service), service });
+    }
+
+    if (config.load_balancer?.backend_service?.existing) {
+      const urlMap = await this.api.get("urlMap", names.urlMap);
+      if (!urlMap) {
+        throw new Error(`URL map ${names.urlMap} of the existing load balancer was not found`);
+      }
+      await this.update("urlMap", names.urlMap, urlMap, (live) =>
+        routesTo(live, backendPath)
+          ? undefined
+          : { changes: { defaultService: backendPath }, detail: `default service ${names.backendService}` });
+      return { actions: this.actions };
+    }
+
+    const address = await this.ensure("address", { name: names.address, ipVersion: "IPV4" });
+    const routes = this.routes(config, backendPath);
+    await this.ensure("urlMap", { ...routes, name: names.urlMap }, (live) => {
+      const changes: ComputeResources["urlMap"] = {};
+      const details: string[] = [];
+      if (!isSameResource(live.defaultService, backendPath)) {
+        changes.defaultService = backendPath;
+        details.push(`default service ${names.backendService}`);
+      }
+      if (describeRoutes(live) !== describeRoutes(routes)) {
+        Object.assign(changes, { hostRules: routes.hostRules, pathMatchers: routes.pathMatchers });
+        details.push("host rules");
+      }
+      return details.length > 0 ? { changes, detail: details.join(", ") } : undefined;
+    });
+
+    const certificatePaths = await this.ensureCertificates(config);
+    const https = certificatePaths.length > 0;
+    const redirect = https && !!config.load_balancer?.https_redirect;
+    if (redirect) {
+      await this.ensure("urlMap", {
+        name: names.redirectUrlMap,
+        defaultUrlRedirect: { httpsRedirect: true, redirectResponseCode: "MOVED_PERMANENTLY_DEFAULT", stripQuery: false },
+      });
+    }
+
+    const urlMapPath = this.path("urlMap", names.urlMap);
+    const httpUrlMap = redirect ? names.redirectUrlMap : names.urlMap;
+    const httpUrlMapPath = this.path("urlMap", httpUrlMap);
+    await this.ensure("targetHttpProxy", { name: names.targetProxy, urlMap: httpUrlMapPath }, (live) =>
+      isSameResource(live.urlMap, httpUrlMapPath)
+        ? undefined
+        : { changes: { urlMap: httpUrlMapPath }, detail: `URL map ${httpUrlMap}` });
+    await this.ensureForwardingRule(names.forwardingRule, names.address, "80", "targetHttpProxy", names.targetProxy);
+
+    if (https) {
+      await this.ensure(
+        "targetHttpsProxy",
+        { name: names.httpsProxy, urlMap: urlMapPath, sslCertificates: certificatePaths },
+        (live) => {
+          const changes: ComputeResources["targetHttpsProxy"] = {};
+          const details: string[] = [];
+          if (!isSameResource(live.urlMap, urlMapPath)) {
+            changes.urlMap = urlMapPath;
+            details.push(`URL map ${names.urlMap}`);
+          }
+          if (!sameList(live.sslCertificates, certificatePaths)) {
+            changes.sslCertificates = certificatePaths;
+            details.push(`certificates ${certificates(config).map((certificate) => certificate.name).join(", ")}`);
+          }
+          return details.length > 0 ? { changes, detail: details.join(", ") } : undefined;
+        },
+      );
+      await this.ensureForwardingRule(names.httpsForwardingRule, names.address, "443", "targetHttpsProxy", names.httpsProxy);
+    } else {
+      await this.delete("forwardingRule", names.httpsForwardingRule);
+      await this.delete("targetHttpsProxy", names.httpsProxy);
+    }
+    if (!redirect) {
+      await this.delete("urlMap", names.redirectUrlMap);
+    }
+
+    return { actions: this.actions, ipAddress: address?.address || undefined };
+  }
+
+  // Deletes what apply created, frontend first. Resources of an existing
+  // load balancer and certificates only referred to by name are left alone,
+  // and missing resources are skipped.
+  async destroy(config: CloudRunConfig): Promise<LoadBalancerAction[]> {
+    this.actions = [];
+    const names = loadBalancerNames(config);
+    const existing = config.load_balancer?.backend_service?.existing;
+
+    if (!existing) {
+      await this.delete("forwardingRule", names.httpsForwardingRule);
+      await this.delete("forwardingRule", names.forwardingRule);
+      await this.delete("targetHttpsProxy", names.httpsProxy);
+      await this.delete("targetHttpProxy", names.targetProxy);
+      await this.delete("urlMap", names.redirectUrlMap);
+      await this.delete("urlMap", names.urlMap);
+      for (const certificate of certificates(config).filter(isOwnedCertificate)) {
+        await this.delete("sslCertificate", certificate.name);
+      }
+      await this.delete("address", names.address);
+    }
+
+    await this.destroyBackend(names, !!existing);
+    for (const service of routedServices(config)) {
+      await this.destroyRoutedBackend(backendNames(service), ownerDescription(names));
+    }
+
+    return this.actions;
+  }
+
+  // Provisioning status of the custom_domain certificate. Google-managed
+  // certificates become ACTIVE once DNS points the domains at the address.
+  async domainCertificateStatus(config: CloudRunConfig): Promise<CertificateStatus> {
+    const certificate = await this.api.get("sslCertificate", domainCertificateName(config));
+    const pending = Object.entries(certificate?.managed?.domainStatus || {})
+      .filter(([, status]) => status !== "ACTIVE")
+      .map(([domain, status]) => `${domain}: ${status}`);
+    return {
+      ready: !certificate?.managed || certificate.managed.status === "ACTIVE",
+      message: pending.join(", ") || certificate?.managed?.status || undefined,
+    };
+  }
+
+  private path(kind: ComputeResourceKind, name: string): string {
+    return resourcePath(this.api, kind, name);
+  }
+
+  // Default service and host rules of the URL map. Each host rule gets a
+  // path matcher sending its hosts to the rule's service, except for paths
+  // matched by its path rules.
+  private routes(config: CloudRunConfig, backendPath: string): ComputeResources["urlMap"] {
+    const backendOf = (service: string) =>
+      service === config.service.name ? backendPath : this.path("backendService", backendNames(service).backendService);
+    const hostRules = config.load_balancer?.host_rules || [];
+    return {
+      defaultService: backendPath,
+      hostRules: hostRules.map((rule, index) => ({ hosts: rule.hosts, pathMatcher: `host-rule-${index + 1}` })),
+      pathMatchers: hostRules.map((rule, index) => ({
+        name: `host-rule-${index + 1}`,
+        defaultService: backendOf(rule.service),
+        pathRules: (rule.path_rules || []).map((pathRule) => ({ paths: pathRule.paths, service: backendOf(pathRule.service) })),
+      })),
+    };
+  }
+
+  // The serverless NEG of `service` and its backend service, with the CDN
+  // and Cloud Armor settings of the config
+  private async ensureBackend(
+    config: CloudRunConfig,
+    names: { neg: string; backendService: string; service?: string },
+  ) {
+    const service = names.service || config.service.name;
+    const description = ownerDescription(loadBalancerNames(config));
+    const negPath = this.path("networkEndpointGroup", names.neg);
+    const neg = await this.ensure("networkEndpointGroup", {
+      name: names.neg,
+      description,
+      networkEndpointType: "SERVERLESS",
+      cloudRun: { service },
+    });
+    if (neg?.cloudRun?.service && neg.cloudRun.service !== service) {
+      throw new Error(`Serverless NEG ${names.neg} points to service ${neg.cloudRun.service}, not ${service}`);
+    }
+
+    const settings = this.backendSettings(config);
+    const backendService = await this.ensure("backendService", {
+      name: names.backendService,
+      description,
+      loadBalancingScheme: "EXTERNAL_MANAGED",
+      protocol: "HTTP",
+      backends: [{ group: negPath }],
+      enableCDN: settings.enableCdn,
+      ...(settings.cdnPolicy ? { cdnPolicy: settings.cdnPolicy } : {}),
+    });
+    if (!backendService) {
+      return;
+    }
+
+    // The security policy can't be set on insert, so a new backend service
+    // gets it here too
+    await this.update("backendService", names.backendService, backendService, (live) => {
+      const changes: ComputeResources["backendService"] = {};
+      const details: string[] = [];
+      if (!(live.backends || []).some((backend) => isSameResource(backend.group, negPath))) {
+        changes.backends = [...(live.backends || []), { group: negPath }];
+        details.push(`add backend ${names.neg}`);
+      }
+      if (!!live.enableCDN !== settings.enableCdn) {
+        changes.enableCDN = settings.enableCdn;
+        details.push(settings.enableCdn ? "enable CDN" : "disable CDN");
+      }
+      const cdnPolicy = settings.cdnPolicy as Record<string, unknown> | undefined;
+      const liveCdnPolicy = (live.cdnPolicy || {}) as Record<string, unknown>;
+      if (cdnPolicy && Object.entries(cdnPolicy).some(([key, value]) => liveCdnPolicy[key] !== value)) {
+        changes.cdnPolicy = { ...live.cdnPolicy, ...settings.cdnPolicy };
+        details.push("CDN policy");
+      }
+      if (settings.securityPolicy && !isSameResource(live.securityPolicy, settings.securityPolicy)) {
+        changes.securityPolicy = settings.securityPolicy;
+        details.push(`security policy ${settings.securityPolicy.split("/").pop()}`);
+      } else if (!settings.securityPolicy && live.securityPolicy) {
+        changes.securityPolicy = "";
+        details.push("detach security policy");
+      }
+      return details.length > 0 ? { changes, detail: details.join(", ") } : undefined;
+    });
+  }
+
+  private backendSettings(config: CloudRunConfig) {
+    const { cdn, security_policy: policy } = config.load_balancer || {};
+    const seconds = (duration?: string) => duration ? Math.round(parseDuration(duration) / 1000) : undefined;
+    let cdnPolicy: ComputeResources["backendService"]["cdnPolicy"];
+    if (typeof cdn === "object") {
+      cdnPolicy = Object.fromEntries(
+        Object.entries({
+          cacheMode: cdn.cache_mode,
+          defaultTtl: seconds(cdn.default_ttl),
+          maxTtl: seconds(cdn.max_ttl),
+          clientTtl: seconds(cdn.client_ttl),
+        }).filter(([, value]) => value !== undefined),
+      );
+    }
+    return {
+      enableCdn: !!cdn,
+      cdnPolicy,
+      securityPolicy: policy
+        ? policy.includes("/") ? toResourcePath(policy) : `projects/${this.api.project}/global/securityPolicies/${policy}`
+        : undefined,
+    };
+  }
+
+  // Creates missing certificates and resolves to the paths of all of them.
+  // Certificates can't be changed, so a different one needs a new name.
+  private async ensureCertificates(config: CloudRunConfig): Promise<string[]> {
+    const paths: string[] = [];
+    for (const certificate of certificates(config)) {
+      const live = await this.api.get("sslCertificate", certificate.name);
+      if (!live && certificate.name === config.custom_domain?.certificate && !isOwnedCertificate(certificate)) {
+        const domains = customDomains(config);
+        await this.api.insert("sslCertificate", { name: certificate.name, type: "MANAGED", managed: { domains } });
+        this.actions.push({ action: "create", kind: "sslCertificate", name: certificate.name, detail: domains.join(", ") });
+      } else if (!live && certificate.domains) {
+        await this.api.insert("sslCertificate", { name: certificate.name, type: "MANAGED", managed: { domains: certificate.domains } });
+        this.actions.push({ action: "create", kind: "sslCertificate", name: certificate.name, detail: certificate.domains.join(", ") });
+      } else if (!live && certificate.certificate && certificate.private_key) {
+        await this.api.insert("sslCertificate", {
+          name: certificate.name,
+          type: "SELF_MANAGED",
+          certificate: readFileSync(certificate.certificate, "utf-8"),
+          privateKey: readFileSync(certificate.private_key, "utf-8"),
+        });
+        this.actions.push({ action: "create", kind: "sslCertificate", name: certificate.name, detail: "self-managed" });
+      } else if (!live) {
+        throw new Error(`SSL certificate ${certificate.name} was not found`);
+      } else if (certificate.domains && !sameList(live.managed?.domains, certificate.domains)) {
+        throw new Error(
+          `SSL certificate ${certificate.name} is for ${(live.managed?.domains || []).join(", ") || "other domains"}. ` +
+            "Certificates can't be changed, give the new one another name",
+        );
+      } else if (certificate.certificate && live.certificate?.trim() !== readFileSync(certificate.certificate, "utf-8").trim()) {
+        throw new Error(
+          `SSL certificate ${certificate.name} holds a different certificate than ${certificate.certificate}. ` +
+            "Certificates can't be changed, give the new one another name",
+        );
+      }
+      paths.push(this.path("sslCertificate", certificate.name));
+    }
+    return paths;
+  }
+
+  private async ensureForwardingRule(
+    name: string,
+    address: string,
+    port: string,
+    targetKind: "targetHttpProxy" | "targetHttpsProxy",
+    target: string,
+  ) {
+    const targetPath = this.path(targetKind, target);
+    await this.ensure(
+      "forwardingRule",
+      {
+        name,
+        IPAddress: this.path("address", address),
+        IPProtocol: "TCP",
+        portRange: port,
+        target: targetPath,
+        loadBalancingScheme: "EXTERNAL_MANAGED",
+        networkTier: "PREMIUM",
+      },
+      (live) =>
+        isSameResource(live.target, targetPath) ? undefined : { changes: { target: targetPath }, detail: `target ${target}` },
+    );
+  }
+
+  // A NEG still used by a backend service can't be deleted, so the backend
+  // service goes first, or the NEG is detached from a kept one
+  private async destroyBackend(names: { neg: string; backendService: string }, keepBackendService: boolean) {
+    if (!keepBackendService) {
+      await this.delete("backendService", names.backendService);
+      await this.delete("networkEndpointGroup", names.neg);
+      return;
+    }
+    const negPath = this.path("networkEndpointGroup", names.neg);
+    await this.step("backendService", names.backendService, async () => {
+      const backendService = await this.api.get("backendService", names.backendService);
+      const backends = backendService?.backends || [];
+      if (backendService && backends.some((backend) => isSameResource(backend.group, negPath))) {
+        const remaining = backends.filter((backend) => !isSameResource(backend.group, negPath));
+        await this.write("backendService", names.backendService, backendService, { backends: remaining });
+        this.actions.push({ action: "update", kind: "backendService", name: names.backendService, detail: `remove backend ${names.neg}` });
+      }
+    });
+    await this.delete("networkEndpointGroup", names.neg);
+  }
+
+  // Deletes the backend service, then the NEG, of a routed service when
+  // this load balancer created them. A NEG is kept while a backend service
+  // it didn't create may still use it.
+  private async destroyRoutedBackend(names: { neg: string; backendService: string }, owner: string) {
+    let backendServiceGone = false;
+    await this.step("backendService", names.backendService, async () => {
+      const backendService = await this.api.get("backendService", names.backendService);
+      if (backendService?.description === owner) {
+        await this.delete("backendService", names.backendService);
+      }
+      backendServiceGone = !await this.api.get("backendService", names.backendService);
+    });
+    await this.step("networkEndpointGroup", names.neg, async () => {
+      const neg = await this.api.get("networkEndpointGroup", names.neg);
+      if (backendServiceGone && neg?.description === owner) {
+        await this.delete("networkEndpointGroup", names.neg);
+      }
+    });
+  }
+
+  // Creates the resource when missing, else applies the changes `diff`
+  // returns for the live resource. Resolves to the resource as it now is.
+  private async ensure<K extends ComputeResourceKind>(
+    kind: K,
+    resource: ComputeResources[K] & { name: string },
+    diff?: Diff<K>,
+  ): Promise<ComputeResources[K] | undefined> {
+    const live = await this.api.get(kind, resource.name);
+    if (!live) {
+      await this.api.insert(kind, resource);
+      this.actions.push({ action: "create", kind, name: resource.name });
+      return this.api.get(kind, resource.name);
+    }
+    return diff ? this.update(kind, resource.name, live, diff) : live;
+  }
+
+  private async update<K extends ComputeResourceKind>(
+    kind: K,
+    name: string,
+    live: ComputeResources[K],
+    diff: Diff<K>,
+  ): Promise<ComputeResources[K] | undefined> {
+    const change = diff(live);
+    if (!change) {
+      return live;
+    }
+    await this.write(kind, name, live, change.changes);
+    this.actions.push({ action: "update", kind, name, detail: change.detail });
+    return this.api.get(kind, name);
+  }
+
+  // A PATCH leaves out empty lists, so clearing one replaces the resource
+  private async write<K extends ComputeResourceKind>(
+    kind: K,
+    name: string,
+    live: ComputeResources[K],
+    changes: ComputeResources[K],
+  ) {
+    const clears = Object.values(changes).some((value) => Array.isArray(value) && value.length === 0);
+    await (clears ? this.api.replace(kind, name, { ...live, ...changes }) : this.api.update(kind, name, changes));
+  }
+
+  private async delete(kind: ComputeResourceKind, name: string) {
+    await this.step(kind, name, async () => {
+      if (await this.api.delete(kind, name)) {
+        this.actions.push({ action: "delete", kind, name });
+      }
+    });
+  }
+
+  // Teardown carries on past failures, so one stuck resource doesn't leave
+  // the others behind
+  private async step(kind: ComputeResourceKind, name: string, run: () => Promise<void>) {
+    try {
+      await run();
+    } catch (error) {
+      console.warn(`Warning: Could not clean up ${KIND_LABELS[kind]} ${name}:`, error instanceof Error ? error.message : error);
+    }
+  }
+}
@@ -0,0 +1,146 @@
+import { assertEquals } from "@std/assert";
+import { CloudRunConfig } from "../config/parser.ts";
+import { ComputeResourceKind, InMemoryComputeApi } from "./compute.ts";
+import { LoadBalancerService } from "./load_balancer.ts";
+
+function lbConfig(loadBalancer: CloudRunConfig["load_balancer"] = {}, service = "api"): CloudRunConfig {
+  return {
+    version: "1",
+    project_id: "my-project",
+    region: "europe-west1",
+    service: { name: service, allow_unauthenticated: true },
+    container: { image: `europe-docker.pkg.dev/my-project/app/${service}`, port: 8080 },
+    load_balancer: loadBalancer,
+  } as CloudRunConfig;
+}
+
+const CREATED = [
+  "insert networkEndpointGroup api-neg",
+  "insert backendService api-backend-service",
+  "insert address api-ip",
+  "insert urlMap api-url-map",
+  "insert targetHttpProxy api-target-proxy",
+  "insert forwardingRule api-forwarding-rule",
+];
+
+Deno.test("apply creates the backend and the HTTP frontend from scratch", async () => {
+  const api = new InMemoryComputeApi("my-project", "europe-west1");
+  const { actions } = await new LoadBalancerService(api).apply(lbConfig());
+
+  assertEquals(api.operations, CREATED);
+  assertEquals(actions.map((action) => `${action.action} ${action.kind} ${action.name}`), [
+    "create networkEndpointGroup api-neg",
+    "create backendService api-backend-service",
+    "create address api-ip",
+    "create urlMap api-url-map",
+    "create targetHttpProxy api-target-proxy",
+    "create forwardingRule api-forwarding-rule",
+  ]);
+  const forwardingRule = await api.get("forwardingRule", "api-forwarding-rule");
+  assertEquals(forwardingRule?.target, "projects/my-project/global/targetHttpProxies/api-target-proxy");
+});
+
+Deno.test("apply changes nothing when the load balancer is up to date", async () => {
+  const api = new InMemoryComputeApi("my-project", "europe-west1");
+  const config = lbConfig({ cdn: true, security_policy: "edge-policy" });
+  await new LoadBalancerService(api).apply(config);
+  const operations = api.operations.length;
+
+  const { actions } = await new LoadBalancerService(api).apply(config);
+
+  assertEquals(actions, []);
+  assertEquals(api.operations.length, operations);
+});
+
+Deno.test("apply removes the routes of host rules taken out of the config", async () => {
+  const api = new InMemoryComputeApi("my-project", "europe-west1");
+  await new LoadBalancerService(api).apply(lbConfig({ host_rules: [{ hosts: ["www.example.com"], service: "web" }] }));
+
+  const { actions } = await new LoadBalancerService(api).apply(lbConfig());
+
+  assertEquals(actions.map((action) => `${action.action} ${action.kind} ${action.name} (${action.detail})`), [
+    "update urlMap api-url-map (host rules)",
+  ]);
+  const urlMap = await api.get("urlMap", "api-url-map");
+  assertEquals([urlMap?.hostRules, urlMap?.pathMatchers], [[], []]);
+  assertEquals((await new LoadBalancerService(api).apply(lbConfig())).actions, []);
+});
+
+Deno.test("a dry run reports the changes without writing them", async () => {
+  const api = new InMemoryComputeApi("my-project", "europe-west1");
+  await new LoadBalancerService(api).apply(lbConfig());
+  const operations = [...api.operations];
+
+  const dryRun = new InMemoryComputeApi("my-project", "europe-west1", api);
+  const { actions } = await new LoadBalancerService(dryRun).apply(lbConfig({ cdn: true }));
+
+  assertEquals(actions.map((action) => `${action.action} ${action.kind} ${action.name} (${action.detail})`), [
+    "update backendService api-backend-service (enable CDN)",
+  ]);
+  assertEquals(dryRun.operations, ["update backendService api-backend-service"]);
+  assertEquals(api.operations, operations);
+  assertEquals((await api.get("backendService", "api-backend-service"))?.enableCDN, false);
+});
+
+Deno.test("destroy deletes what apply created, frontend first", async () => {
+  const api = new InMemoryComputeApi("my-project", "europe-west1");
+  await new LoadBalancerService(api).apply(lbConfig());
+
+  const actions = await new LoadBalancerService(api).destroy(lbConfig());
+
+  assertEquals(actions.map((action) => `${action.action} ${action.kind} ${action.name}`), [
+    "delete forwardingRule api-forwarding-rule",
+    "delete targetHttpProxy api-target-proxy",
+    "delete urlMap api-url-map",
+    "delete address api-ip",
+    "delete backendService api-backend-service",
+    "delete networkEndpointGroup api-neg",
+  ]);
+  for (const operation of CREATED) {
+    const [, kind, name] = operation.split(" ") as [string, ComputeResourceKind, string];
+    assertEquals(await api.get(kind, name), undefined);
+  }
+});
+
+Deno.test("destroy detaches the NEG from the backend service of an existing load balancer", async () => {
+  const api = new InMemoryComputeApi("my-project", "europe-west1");
+  await api.insert("backendService", { name: "shared-backend", loadBalancingScheme: "EXTERNAL_MANAGED" });
+  await api.insert("urlMap", { name: "shared-url-map", defaultService: "projects/my-project/global/backendServices/other" });
+  const config = lbConfig({ url_map: "shared-url-map", backend_service: { name: "shared-backend", existing: true } });
+  await new LoadBalancerService(api).apply(config);
+
+  const actions = await new LoadBalancerService(api).destroy(config);
+
+  assertEquals(actions.map((action) => `${action.action} ${action.kind} ${action.name}`), [
+    "update backendService shared-backend",
+    "delete networkEndpointGroup api-neg",
+  ]);
+  assertEquals((await api.get("backendService", "shared-backend"))?.backends, []);
+  assertEquals(await api.get("networkEndpointGroup", "api-neg"), undefined);
+});
+
+Deno.test("destroy leaves the backend of a routed service another load balancer created", async () => {
+  const api = new InMemoryComputeApi("my-project", "europe-west1");
+  await new LoadBalancerService(api).apply(lbConfig());
+  const web = lbConfig({ host_rules: [{ hosts: ["api.example.com"], service: "api" }] }, "web");
+  await new LoadBalancerService(api).apply(web);
+
+  const actions = await new LoadBalancerService(api).destroy(web);
+
+  assertEquals(actions.some((action) => action.name.startsWith("api-")), false);
+  assertEquals((await api.get("backendService", "api-backend-service"))?.backends?.length, 1);
+  assertEquals(!!await api.get("networkEndpointGroup", "api-neg"), true);
+});
+
+Deno.test("destroy deletes the backend it created for a routed service", async () => {
+  const api = new InMemoryComputeApi("my-project", "europe-west1");
+  const web = lbConfig({ host_rules: [{ hosts: ["api.example.com"], service: "api" }] }, "web");
+  await new LoadBalancerService(api).apply(web);
+
+  const actions = await new LoadBalancerService(api).destroy(web);
+
+  assertEquals(actions.slice(-2).map((action) => `${action.action} ${action.kind} ${action.name}`), [
+    "delete backendService api-backend-service",
+    "delete networkEndpointGroup api-neg",
+  ]);
+});
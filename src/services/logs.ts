@@ -0,0 +1,194 @@
+import { GoogleAuth } from "npm:google-auth-library";
+import chalk from "npm:chalk@^5.3.0";
+import { CloudRunConfig } from "../config/parser.ts";
+import { createAuth } from "../utils/credentials.ts";
+import { parseDuration } from "../utils/duration.ts";
+
+const ENTRIES_URL = "https://logging.googleapis.com/v2/entries:list";
+const FOLLOW_POLLING_INTERVAL = 3000;
+const MAX_PAGE_SIZE = 1000;
+
+// Cloud Logging severities, lowest first
+export const LOG_SEVERITIES = [
+  "DEFAULT",
+  "DEBUG",
+  "INFO",
+  "NOTICE",
+  "WARNING",
+  "ERROR",
+  "CRITICAL",
+  "ALERT",
+  "EMERGENCY",
+] as const;
+
+export type LogSeverity = typeof LOG_SEVERITIES[number];
+
+export interface LogQuery {
+  revision?: string;
+  since?: string; // A duration back from now, e.g. 10m
+  severity?: LogSeverity; // This severity and above
+  grep?: string; // Text searched in every field of the entry
+  limit?: number;
+}
+
+export interface LogEntry {
+  timestamp: string;
+  severity: LogSeverity;
+  revision?: string;
+  logName: string;
+  message: string;
+  insertId: string;
+  trace?: string;
+}
+
+// The fields of an entries:list response that are read
+interface RawLogEntry {
+  insertId: string;
+  logName: string;
+  timestamp: string;
+  severity?: LogSeverity;
+  resource?: { labels?: Record<string, string> };
+  textPayload?: string;
+  jsonPayload?: Record<string, unknown>;
+  protoPayload?: { status?: { message?: string }; methodName?: string };
+  httpRequest?: { requestMethod?: string; requestUrl?: string; status?: number; latency?: string };
+  trace?: string;
+}
+
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+// A Cloud Logging query for the service's revisions. Entries at or after
+// `after` are kept, which is how --follow picks up where it left off.
+export function buildLogFilter(config: CloudRunConfig, query: LogQuery, after?: string): string {
+  const start = after || (query.since && new Date(Date.now() - parseDuration(query.since)).toISOString());
+  return [
+    `resource.type="cloud_run_revision"`,
+    `resource.labels.service_name=${quote(config.service.name)}`,
+    `resource.labels.location=${quote(config.region)}`,
+    ...(query.revision ? [`resource.labels.revision_name=${quote(query.revision)}`] : []),
+    ...(start ? [`timestamp>=${quote(start)}`] : []),
+    ...(query.severity ? [`severity>=${query.severity}`] : []),
+    ...(query.grep ? [quote(query.grep)] : []),
+  ].join("\n");
+}
+
+// Request logs have no payload, they are summed up from their httpRequest
+function entryMessage(entry: RawLogEntry): string {
+  if (entry.textPayload !== undefined) {
+    return entry.textPayload;
+  }
+  if (entry.jsonPayload) {
+    const { message, msg } = entry.jsonPayload;
+    return typeof message === "string" ? message : typeof msg === "string" ? msg : JSON.stringify(entry.jsonPayload);
+  }
+  if (entry.httpRequest) {
+    const { requestMethod, status, requestUrl, latency } = entry.httpRequest;
+    return [requestMethod, status, requestUrl, latency].filter((part) => part !== undefined).join(" ");
+  }
+  return entry.protoPayload?.status?.message || entry.protoPayload?.methodName || "";
+}
+
+function describeEntry(entry: RawLogEntry): LogEntry {
+  return {
+    timestamp: entry.timestamp,
+    severity: entry.severity || "DEFAULT",
+    revision: entry.resource?.labels?.revision_name,
+    logName: decodeURIComponent(entry.logName.split("/logs/").pop() || ""),
+    message: entryMessage(entry).replace(/\n+$/, ""),
+    insertId: entry.insertId,
+    ...(entry.trace && { trace: entry.trace }),
+  };
+}
+
+const SEVERITY_COLORS: Partial<Record<LogSeverity, (text: string) => string>> = {
+  DEBUG: chalk.gray,
+  INFO: chalk.cyan,
+  NOTICE: chalk.cyan,
+  WARNING: chalk.yellow,
+  ERROR: chalk.red,
+  CRITICAL: chalk.bold.red,
+  ALERT: chalk.bold.red,
+  EMERGENCY: chalk.bold.red,
+};
+
+export function formatLogEntry(entry: LogEntry, color = false): string {
+  const severity = entry.severity.padEnd(9);
+  const paint = color ? SEVERITY_COLORS[entry.severity] : undefined;
+  return [
+    color ? chalk.gray(entry.timestamp) : entry.timestamp,
+    paint ? paint(severity) : severity,
+    entry.revision || "-",
+    entry.message,
+  ].join("  ");
+}
+
+// Reads the service's entries from Cloud Logging through its v2 REST API
+export class LogService {
+  private auth: GoogleAuth;
+
+  constructor(private config: CloudRunConfig, credentialsPath?: string) {
+    this.auth = createAuth(credentialsPath);
+  }
+
+  // The most recent `limit` entries matching the query, oldest first
+  async list(query: LogQuery): Promise<LogEntry[]> {
+    try {
+      const entries = await this.fetch(buildLogFilter(this.config, query), "timestamp desc", query.limit || 100);
+      return entries.map(describeEntry).reverse();
+    } catch (error) {
+      console.error("Error reading logs:", error);
+      throw error;
+    }
+  }
+
+  // Prints the most recent entries, then polls for new ones until the
+  // process is stopped. Entries sharing the last timestamp seen are fetched
+  // again, their insertId tells which were already printed.
+  async follow(query: LogQuery, onEntry: (entry: LogEntry) => void): Promise<never> {
+    const initial = await this.list(query);
+    initial.forEach(onEntry);
+
+    let last = initial.at(-1)?.timestamp || new Date().toISOString();
+    let seen = new Set(initial.filter((entry) => entry.timestamp === last).map((entry) => entry.insertId));
+    while (true) {
+      await new Promise((resolve) => setTimeout(resolve, FOLLOW_POLLING_INTERVAL));
+      const entries = (await this.fetch(buildLogFilter(this.config, query, last), "timestamp asc", MAX_PAGE_SIZE))
+        .map(describeEntry)
+        .filter((entry) => !seen.has(entry.insertId));
+      entries.forEach(onEntry);
+
+      if (entries.length > 0) {
+        const latest = entries.at(-1)!.timestamp;
+        seen = new Set([
+          ...(latest === last ? seen : []),
+          ...entries.filter((entry) => entry.timestamp === latest).map((entry) => entry.insertId),
+        ]);
+        last = latest;
+      }
+    }
+  }
+
+  private async fetch(filter: string, orderBy: string, limit: number): Promise<RawLogEntry[]> {
+    const client = await this.auth.getClient();
+    const entries: RawLogEntry[] = [];
+    let pageToken: string | undefined;
+    do {
+      const response = await client.request<{ entries?: RawLogEntry[]; nextPageToken?: string }>({
+        url: ENTRIES_URL,
+        method: "POST",
+        data: {
+          resourceNames: [`projects/${this.config.project_id}`],
+          filter,
+          orderBy,
+          pageSize: Math.min(limit - entries.length, MAX_PAGE_SIZE),
+          ...(pageToken && { pageToken }),
+        },
+      });
+      entries.push(...(response.data.entries || []));
+      pageToken = response.data.nextPageToken;
+    } while (pageToken && entries.length < limit);
+    return entries;
+  }
+}
@@ -0,0 +1,152 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { GoogleAuth } from "npm:google-auth-library";
+import { CloudRunConfig, ConfigParser, ContainerConfig, Environment } from "../config/parser.ts";
+import { createAuth } from "../utils/credentials.ts";
+import { formatImage, ImageReference, parseImage } from "../utils/image.ts";
+
+export interface ImageRecord extends ImageReference {
+  digest: string;
+  built_at: string;
+}
+
+// Images pushed by `package`, keyed by environment and kept next to the
+// config file, so a later `deploy` in the same checkout pins exactly what
+// was built
+export function imageRecordsPath(configPath: string): string {
+  return join(dirname(configPath), ".cloudrunify", "images.json");
+}
+
+const MANIFEST_TYPES = [
+  "application/vnd.oci.image.index.v1+json",
+  "application/vnd.docker.distribution.manifest.list.v2+json",
+  "application/vnd.oci.image.manifest.v1+json",
+  "application/vnd.docker.distribution.manifest.v2+json",
+];
+
+function readImageRecords(configPath: string): Record<string, ImageRecord> {
+  const path = imageRecordsPath(configPath);
+  if (!existsSync(path)) {
+    return {};
+  }
+  return JSON.parse(readFileSync(path, "utf-8"));
+}
+
+// Images of named containers in `containers` are recorded as <env>/<name>
+function recordKey(env: Environment, container?: string): string {
+  return container ? `${env}/${container}` : env;
+}
+
+export function readImageRecord(configPath: string, env: Environment, container?: string): ImageRecord | undefined {
+  return readImageRecords(configPath)[recordKey(env, container)];
+}
+
+export function writeImageRecord(configPath: string, env: Environment, record: ImageRecord, container?: string) {
+  const path = imageRecordsPath(configPath);
+  const records = { ...readImageRecords(configPath), [recordKey(env, container)]: record };
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(records, null, 2) + "\n");
+}
+
+export class RegistryService {
+  private auth: GoogleAuth;
+
+  constructor(credentialsPath?: string) {
+    this.auth = createAuth(credentialsPath);
+  }
+
+  // Looks up the digest a tag points to with the registry's v2 API
+  async resolveDigest(image: ImageReference): Promise<string> {
+    const [host, ...path] = image.repository.split("/");
+    if (!host.endsWith("gcr.io") && !host.endsWith("docker.pkg.dev")) {
+      throw new Error(`Digest lookup is only supported for Container Registry and Artifact Registry, not ${host}`);
+    }
+
+    const client = await this.auth.getClient();
+    const { token } = await client.getAccessToken();
+    const reference = image.tag || "latest";
+    const response = await fetch(`https://${host}/v2/${path.join("/")}/manifests/${reference}`, {
+      method: "HEAD",
+      headers: {
+        Authorization: `Basic ${btoa(`oauth2accesstoken:${token}`)}`,
+        Accept: MANIFEST_TYPES.join(", "),
+      },
+    });
+
+    const digest = response.headers.get("docker-content-digest");
+    if (!response.ok || !digest) {
+      throw new Error(`Image ${image.repository}:${reference} not found (HTTP ${response.status})`);
+    }
+    return digest;
+  }
+
+  // Picks the image deploy pins the revision to: an explicit --image-tag, then
+  // a tag or digest the config names, then the image `package` last pushed
+  // for the environment. An untagged image that `package` builds is never
+  // deployed as `latest`, which `package` doesn't push.
+  resolveDeployImage(config: CloudRunConfig, configPath: string, env: Environment, imageTag?: string): Promise<ImageReference> {
+    return this.resolveContainerImage(config, config.container, configPath, env, imageTag);
+  }
+
+  // Pins the images of the other entries of `containers` the same way.
+  // --image-tag only applies to containers `package` builds.
+  async resolveSidecarImages(
+    config: CloudRunConfig,
+    configPath: string,
+    env: Environment,
+    imageTag?: string,
+  ): Promise<CloudRunConfig> {
+    if (!config.containers) {
+      return config;
+    }
+    const containers = await Promise.all(config.containers.map(async (container) => {
+      if (container === config.container) {
+        return container;
+      }
+      const image = await this.resolveContainerImage(config, container, configPath, env, imageTag);
+      return { ...container, image: formatImage(image) };
+    }));
+    // The ingress entry is returned as is, so `container` still points at it
+    return { ...config, containers };
+  }
+
+  private async resolveContainerImage(
+    config: CloudRunConfig,
+    container: ContainerConfig,
+    configPath: string,
+    env: Environment,
+    imageTag?: string,
+  ): Promise<ImageReference> {
+    const configured = parseImage(container.image);
+    const built = ConfigParser.getBuiltContainers(config).includes(container);
+
+    if (imageTag && built) {
+      const requested = { repository: configured.repository, tag: imageTag };
+      return { ...requested, digest: await this.resolveDigest(requested) };
+    }
+    if (configured.digest) {
+      return configured;
+    }
+
+    if (built && !configured.tag) {
+      const record = readImageRecord(configPath, env, config.containers && container.name);
+      if (!record || record.repository !== configured.repository) {
+        throw new Error(
+          `No image of ${configured.repository} recorded for ${env} in ${imageRecordsPath(configPath)}. ` +
+            `Run \`cloudrunify package -e ${env}\` in this checkout first, or pass --image-tag <tag>.`,
+        );
+      }
+      return { repository: record.repository, tag: record.tag, digest: record.digest };
+    }
+
+    try {
+      return { ...configured, digest: await this.resolveDigest(configured) };
+    } catch (error) {
+      console.warn(
+        `Warning: could not resolve the digest of ${formatImage(configured)}, deploying it unpinned:`,
+        (error as Error).message,
+      );
+      return configured;
+    }
+  }
+}
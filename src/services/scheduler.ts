@@ -0,0 +1,186 @@
+import { CloudSchedulerClient, protos } from "npm:@google-cloud/scheduler@^4.3.0";
+import { Buffer } from "node:buffer";
+import { CloudRunConfig, ScheduleConfig } from "../config/parser.ts";
+import { createAuth } from "../utils/credentials.ts";
+import { parseDuration } from "../utils/duration.ts";
+
+type ISchedulerJob = protos.google.cloud.scheduler.v1.IJob;
+type IDuration = protos.google.protobuf.IDuration;
+
+const CLOUD_PLATFORM_SCOPE = "https://www.googleapis.com/auth/cloud-platform";
+
+export interface ScheduleChange {
+  action: "create" | "update" | "delete";
+  name: string;
+  detail?: string;
+}
+
+export function formatScheduleChange(change: ScheduleChange): string {
+  const verbs = { create: "Created", update: "Updated", delete: "Deleted" };
+  return `${verbs[change.action]} schedule ${change.name}${change.detail ? ` (${change.detail})` : ""}`;
+}
+
+// Scheduler jobs are named <service>-<schedule>, and their description marks
+// them as managed for the service so removed schedules can be found
+export function scheduleJobId(config: CloudRunConfig, schedule: ScheduleConfig): string {
+  return `${config.service.name}-${schedule.name}`;
+}
+
+function managedDescription(config: CloudRunConfig): string {
+  return `Managed by cloudrunify for ${config.kind || "service"} ${config.service.name}`;
+}
+
+function toDuration(duration?: string): IDuration | undefined {
+  return duration ? { seconds: Math.round(parseDuration(duration) / 1000) } : undefined;
+}
+
+// The settings a schedule controls, as comparable JSON. Scheduler adds
+// headers of its own, so only the configured headers are compared.
+function describeJob(job: ISchedulerJob, headers: string[]): string {
+  const target = job.httpTarget || {};
+  const seconds = (duration?: IDuration | null) => duration ? Number(duration.seconds || 0) : undefined;
+  return JSON.stringify({
+    schedule: job.schedule,
+    timeZone: job.timeZone || "UTC",
+    uri: target.uri,
+    httpMethod: String(target.httpMethod || "POST"),
+    body: typeof target.body === "string" ? target.body : Buffer.from(target.body || []).toString("base64"),
+    headers: headers.sort().map((header) => [header, target.headers?.[header]]),
+    oidcToken: target.oidcToken ? [target.oidcToken.serviceAccountEmail, target.oidcToken.audience] : undefined,
+    oauthToken: target.oauthToken ? [target.oauthToken.serviceAccountEmail, target.oauthToken.scope] : undefined,
+    retry: job.retryConfig && {
+      retryCount: job.retryConfig.retryCount || 0,
+      maxRetryDuration: seconds(job.retryConfig.maxRetryDuration),
+      minBackoffDuration: seconds(job.retryConfig.minBackoffDuration),
+      maxBackoffDuration: seconds(job.retryConfig.maxBackoffDuration),
+      maxDoublings: job.retryConfig.maxDoublings,
+    },
+    attemptDeadline: seconds(job.attemptDeadline),
+  });
+}
+
+// Reconciles `schedules` into Cloud Scheduler jobs in the service's project
+// and region. A service's schedules call its URL with an OIDC token, a job's
+// schedules call the Cloud Run API to run it with an OAuth token.
+export class SchedulerService {
+  private client: CloudSchedulerClient;
+  private parent: string;
+
+  constructor(private config: CloudRunConfig, credentialsPath?: string) {
+    try {
+      this.client = new CloudSchedulerClient({ auth: createAuth(credentialsPath) });
+      this.parent = `projects/${config.project_id}/locations/${config.region}`;
+    } catch (error: unknown) {
+      console.error("Error initializing authentication:", error);
+      throw error;
+    }
+  }
+
+  // The Scheduler job for a schedule. `serviceUrl` is the deployed service's
+  // URL, not needed for jobs.
+  buildJob(schedule: ScheduleConfig, serviceUrl?: string): ISchedulerJob {
+    const { config } = this;
+    const isJob = config.kind === "job";
+    const body = typeof schedule.body === "object" ? JSON.stringify(schedule.body) : schedule.body;
+    const headers = {
+      ...(typeof schedule.body === "object" && { "Content-Type": "application/json" }),
+      ...schedule.headers,
+    };
+    const retry = schedule.retry;
+
+    if (!isJob && !serviceUrl) {
+      throw new Error(`The URL of service ${config.service.name} is needed to schedule ${schedule.name}`);
+    }
+    const audience = serviceUrl?.replace(/\/$/, "");
+    const uri = isJob
+      ? `https://run.googleapis.com/v2/projects/${config.project_id}/locations/${config.region}/jobs/${config.service.name}:run`
+      : `${audience}${schedule.path || "/"}`;
+
+    return {
+      name: `${this.parent}/jobs/${scheduleJobId(config, schedule)}`,
+      description: managedDescription(config),
+      schedule: schedule.cron,
+      timeZone: schedule.time_zone || "UTC",
+      httpTarget: {
+        uri,
+        httpMethod: isJob ? "POST" : schedule.method || "POST",
+        ...(Object.keys(headers).length > 0 && { headers }),
+        ...(body !== undefined && { body: new TextEncoder().encode(body) }),
+        ...(schedule.service_account && (isJob
+          ? { oauthToken: { serviceAccountEmail: schedule.service_account, scope: CLOUD_PLATFORM_SCOPE } }
+          : { oidcToken: { serviceAccountEmail: schedule.service_account, audience } })),
+      },
+      ...(retry && {
+        retryConfig: {
+          ...(retry.count !== undefined && { retryCount: retry.count }),
+          ...(retry.max_retry_duration && { maxRetryDuration: toDuration(retry.max_retry_duration) }),
+          ...(retry.min_backoff && { minBackoffDuration: toDuration(retry.min_backoff) }),
+          ...(retry.max_backoff && { maxBackoffDuration: toDuration(retry.max_backoff) }),
+          ...(retry.max_doublings !== undefined && { maxDoublings: retry.max_doublings }),
+        },
+      }),
+      ...(schedule.attempt_deadline && { attemptDeadline: toDuration(schedule.attempt_deadline) }),
+    };
+  }
+
+  // Creates and updates the Scheduler jobs of `schedules`, pauses or resumes
+  // them, and deletes the jobs managed for the service that the config no
+  // longer lists
+  async reconcile(serviceUrl?: string): Promise<ScheduleChange[]> {
+    const schedules = this.config.schedules || [];
+    const changes: ScheduleChange[] = [];
+
+    try {
+      const live = new Map((await this.managedJobs()).map((job) => [job.name!, job]));
+      for (const schedule of schedules) {
+        const desired = this.buildJob(schedule, serviceUrl);
+        const current = live.get(desired.name!);
+        live.delete(desired.name!);
+        const headers = Object.keys(desired.httpTarget?.headers || {});
+        let state = current?.state;
+
+        if (!current) {
+          const [created] = await this.client.createJob({ parent: this.parent, job: desired });
+          state = created.state;
+          changes.push({ action: "create", name: schedule.name, detail: `${schedule.cron} ${desired.timeZone}` });
+        } else if (describeJob(current, headers) !== describeJob(desired, headers)) {
+          await this.client.updateJob({ job: desired });
+          changes.push({ action: "update", name: schedule.name, detail: `${schedule.cron} ${desired.timeZone}` });
+        }
+
+        if (schedule.paused && String(state) !== "PAUSED") {
+          await this.client.pauseJob({ name: desired.name });
+          changes.push({ action: "update", name: schedule.name, detail: "paused" });
+        } else if (!schedule.paused && String(state) === "PAUSED") {
+          await this.client.resumeJob({ name: desired.name });
+          changes.push({ action: "update", name: schedule.name, detail: "resumed" });
+        }
+      }
+
+      for (const job of live.values()) {
+        await this.client.deleteJob({ name: job.name });
+        changes.push({ action: "delete", name: job.name!.split("/").pop()! });
+      }
+    } catch (error) {
+      console.error("Error reconciling schedules:", error);
+      throw error;
+    }
+
+    return changes;
+  }
+
+  // Deletes every Scheduler job managed for the service, listed or not
+  async destroy(): Promise<string[]> {
+    const deleted: string[] = [];
+    for (const job of await this.managedJobs()) {
+      await this.client.deleteJob({ name: job.name });
+      deleted.push(job.name!.split("/").pop()!);
+    }
+    return deleted;
+  }
+
+  private async managedJobs(): Promise<ISchedulerJob[]> {
+    const [jobs] = await this.client.listJobs({ parent: this.parent });
+    return jobs.filter((job) => job.description === managedDescription(this.config));
+  }
+}
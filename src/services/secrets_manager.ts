@@ -1,39 +1,125 @@
 import { SecretManagerServiceClient } from "npm:@google-cloud/secret-manager";
 import inquirer from "npm:inquirer";
-import { GoogleAuth } from "npm:google-auth-library";
-import * as fs from "node:fs";
-import * as process from "node:process"
 import { Buffer } from "node:buffer"
+import { CloudRunConfig } from "../config/parser.ts";
+import { secretVersion } from "./cloudrun.ts";
+import { createAuth } from "../utils/credentials.ts";
 
+// gRPC status codes returned by the client
+const NOT_FOUND = 5;
+const FAILED_PRECONDITION = 9;
+const ABORTED = 10;
+
+export const SECRET_ACCESSOR_ROLE = "roles/secretmanager.secretAccessor";
+
+// A secret version the service needs at runtime
+export interface SecretReference {
+  project: string;
+  name: string;
+  version: string;
+  usedBy: string[]; // config paths referencing it
+}
+
+// Where values for missing secrets come from
+export interface SecretSource {
+  description: string;
+  read(name: string): Promise<Buffer | undefined>;
+}
+
+export type SecretSyncStatus = "ok" | "created" | "missing" | "missing-version" | "error";
+
+export interface SecretSyncResult extends SecretReference {
+  status: SecretSyncStatus;
+  message?: string;
+  accessGranted: boolean;
+}
+
+export interface SecretPushResult {
+  name: string;
+  status: "created" | "updated" | "unchanged";
+  version?: string;
+}
+
+export interface SecretSyncOptions {
+  source?: SecretSource;
+  dryRun?: boolean;
+}
+
+// Collects the secrets referenced by the `secrets` section, secret volumes
+// and `env_vars[].valueFrom`. Names may be short or `projects/<project>/secrets/<name>`.
+export function secretReferences(config: CloudRunConfig): SecretReference[] {
+  const references = new Map<string, SecretReference>();
+  const add = (fullName: string, version: string, usedBy: string) => {
+    const match = /^projects\/([^/]+)\/secrets\/([^/]+)$/.exec(fullName);
+    const project = match ? match[1] : config.project_id;
+    const name = match ? match[2] : fullName;
+    const key = `${project}/${name}@${version}`;
+    const reference = references.get(key) || { project, name, version, usedBy: [] };
+    reference.usedBy.push(usedBy);
+    references.set(key, reference);
+  };
+
+  (config.secrets || []).forEach((secret, index) => {
+    add(secret.name, String(secret.version ?? "latest"), `secrets[${index}]`);
+  });
+  (config.volumes || []).forEach((volume, index) => {
+    if (volume.secret) {
+      // Without items the volume mounts the latest version
+      for (const item of volume.secret.items || [{ version: undefined }]) {
+        add(volume.secret.secret, String(item.version ?? "latest"), `volumes[${index}]`);
+      }
+    }
+  });
+  const containers = config.containers || [config.container];
+  containers.forEach((container, containerIndex) => {
+    const path = config.containers ? `containers[${containerIndex}]` : "container";
+    (container.env_vars || []).forEach((envVar, index) => {
+      if ("valueFrom" in envVar) {
+        const ref = envVar.valueFrom.secretKeyRef;
+        add(ref.name, secretVersion(config, ref), `${path}.env_vars[${index}]`);
+      }
+    });
+  });
+  return [...references.values()];
+}
+
+export interface SecretVersionInfo {
+  version: string;
+  state: string;
+  createTime?: string;
+}
+
+export interface SetSecretResult {
+  created: boolean;
+  version: string;
+}
+
+function versionId(name?: string | null): string {
+  return (name || "").split("/").pop() || "";
+}
+
+function timestampToIso(timestamp?: { seconds?: unknown } | null): string | undefined {
+  if (!timestamp?.seconds) {
+    return undefined;
+  }
+  return new Date(Number(timestamp.seconds) * 1000).toISOString();
+}
+
+// Payloads never leave this service except through accessSecretVersion, and
+// API responses (which may echo payloads) are never logged.
 export class SecretsManagerService {
   private client: SecretManagerServiceClient;
 
-  constructor(projectId: string, credentialsPath?: string) {
-    let credentials;
+  constructor(credentialsPath?: string) {
     try {
-      if (credentialsPath === "json") {
-        const jsonCreds = process.env.GOOGLE_CREDENTIALS;
-        if (!jsonCreds) {
-          throw new Error("GOOGLE_CREDENTIALS environment variable not found");
-        }
-        credentials = JSON.parse(jsonCreds);
-      } else if (credentialsPath) {
-        const keyFileContent = fs.readFileSync(credentialsPath, "utf-8");
-        credentials = JSON.parse(keyFileContent);
-      }
-
-      const auth = new GoogleAuth({
-        credentials,
-        scopes: ["https://www.googleapis.com/auth/cloud-platform"],
-      });
-      this.client = new SecretManagerServiceClient({ auth });
+      this.client = new SecretManagerServiceClient({ auth: createAuth(credentialsPath) });
     } catch (error) {
       console.error("Error initializing authentication:", error);
       throw error;
     }
   }
 
-  async deleteSecret(projectId: string, secretName: string, region: string): Promise<void> {
+  async deleteSecret(projectId: string, secretName: string): Promise<void> {
     const answers = await inquirer.prompt([
       {
         type: "confirm",
@@ -72,50 +158,244 @@ export class SecretsManagerService {
     }
   }
 
-  async createSecret(projectId: string, secretName: string, region: string): Promise<void> {
-    const answers = await inquirer.prompt([
-      {
-        type: "password",
-        name: "secretValue",
-        message: `Enter the value for secret ${secretName}:`,
-        mask: "*",
-        validate: (input) => {
-          if (input.trim() === "") {
-            return "Secret value cannot be empty.";
+  async secretExists(projectId: string, secretName: string): Promise<boolean> {
+    return (await this.findSecret(projectId, secretName)) !== undefined;
+  }
+
+  // Returns the fully qualified secret name (with the project number), or
+  // undefined when the secret does not exist
+  private async findSecret(projectId: string, secretName: string): Promise<string | undefined> {
+    try {
+      const [secret] = await this.client.getSecret({ name: `projects/${projectId}/secrets/${secretName}` });
+      return secret.name || undefined;
+    } catch (error) {
+      if ((error as { code?: number }).code === NOT_FOUND) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private async versionEnabled(projectId: string, secretName: string, version: string): Promise<boolean> {
+    // Read directly, getVersion logs the NOT_FOUND expected here as an error
+    try {
+      const [secretVersion] = await this.client.getSecretVersion({
+        name: `projects/${projectId}/secrets/${secretName}/versions/${version}`,
+      });
+      return String(secretVersion.state) === "ENABLED";
+    } catch (error) {
+      const code = (error as { code?: number }).code;
+      if (code === NOT_FOUND || code === FAILED_PRECONDITION) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  // Adds `member` to the secret's accessor role. The policy is written back
+  // with the etag it was read with, and re-read if it changed in between.
+  private async grantAccessor(secret: string, member: string, dryRun: boolean): Promise<boolean> {
+    for (let attempt = 0; ; attempt++) {
+      const [policy] = await this.client.getIamPolicy({ resource: secret });
+      const bindings = policy.bindings || [];
+      const binding = bindings.find((candidate) => candidate.role === SECRET_ACCESSOR_ROLE && !candidate.condition);
+      if (binding?.members?.includes(member)) {
+        return false;
+      }
+      if (dryRun) {
+        return true;
+      }
+
+      if (binding) {
+        binding.members = [...(binding.members || []), member];
+      } else {
+        bindings.push({ role: SECRET_ACCESSOR_ROLE, members: [member] });
+      }
+      try {
+        await this.client.setIamPolicy({ resource: secret, policy: { ...policy, bindings } });
+        return true;
+      } catch (error) {
+        if ((error as { code?: number }).code !== ABORTED || attempt >= 2) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  // Makes Secret Manager match the secrets the config references: each one
+  // must exist with the requested version enabled, and the runtime service
+  // account must be able to read it. Missing secrets are created from
+  // `source` when it has a value for them, and flagged otherwise.
+  async syncSecrets(config: CloudRunConfig, options: SecretSyncOptions = {}): Promise<SecretSyncResult[]> {
+    const results: SecretSyncResult[] = [];
+
+    for (const reference of secretReferences(config)) {
+      const result: SecretSyncResult = { ...reference, status: "ok", accessGranted: false };
+      results.push(result);
+
+      try {
+        let secret = await this.findSecret(reference.project, reference.name);
+        if (!secret) {
+          const value = await options.source?.read(reference.name);
+          if (value === undefined) {
+            result.status = "missing";
+            result.message = `not found in project ${reference.project}` +
+              (options.source ? ` or in ${options.source.description}` : "");
+            continue;
           }
-          return true;
-        },
-      },
-    ]);
+          result.status = "created";
+          if (options.dryRun) {
+            result.message = `would be created from ${options.source!.description}`;
+            continue;
+          }
+          await this.setSecret(reference.project, reference.name, config.region, value);
+          secret = await this.findSecret(reference.project, reference.name);
+        }
 
-    const secret = {
-      parent: `projects/${projectId}`,
-      secretId: secretName,
-      secret: {
-        replication: {
-          userManaged: {
-            replicas: [{ location: region }],
+        if (!(await this.versionEnabled(reference.project, reference.name, reference.version))) {
+          result.status = "missing-version";
+          result.message = `version ${reference.version} does not exist or is not enabled`;
+        }
+
+        // The default runtime account is the Compute Engine one of the
+        // service's project. The secret name carries that project's number
+        // only when the secret lives in the same project.
+        let serviceAccount = config.service.service_account;
+        if (!serviceAccount && reference.project === config.project_id) {
+          serviceAccount = `${secret!.split("/")[1]}-compute@developer.gserviceaccount.com`;
+        }
+        if (serviceAccount) {
+          result.accessGranted = await this.grantAccessor(secret!, `serviceAccount:${serviceAccount}`, !!options.dryRun);
+        } else {
+          result.message = result.message || "set service.service_account to grant access to a secret in another project";
+        }
+      } catch (error) {
+        result.status = "error";
+        result.message = (error as Error).message;
+      }
+    }
+    return results;
+  }
+
+  // Stores `value` as the newest version of the secret, creating the secret
+  // (replicated to `region`) first when it does not exist yet
+  async setSecret(projectId: string, secretName: string, region: string, value: Buffer): Promise<SetSecretResult> {
+    const parent = `projects/${projectId}/secrets/${secretName}`;
+
+    try {
+      const created = !(await this.secretExists(projectId, secretName));
+      if (created) {
+        await this.client.createSecret({
+          parent: `projects/${projectId}`,
+          secretId: secretName,
+          secret: {
+            replication: {
+              userManaged: {
+                replicas: [{ location: region }],
+              },
+            },
           },
-        },
+        });
+      }
+
+      const [version] = await this.client.addSecretVersion({
+        parent,
+        payload: { data: value.toString("base64") },
+      });
+      return { created, version: versionId(version.name) };
+    } catch (error) {
+      console.error(`Error setting secret ${secretName}:`, (error as Error).message);
+      throw error;
+    }
+  }
+
+  // Adds each value as a new version of its secret, skipping secrets whose
+  // latest version already holds the same value
+  async pushSecrets(projectId: string, region: string, values: Record<string, string>): Promise<SecretPushResult[]> {
+    const results: SecretPushResult[] = [];
+    for (const [name, value] of Object.entries(values)) {
+      const payload = Buffer.from(value, "utf-8");
+      if (await this.secretExists(projectId, name) && await this.versionEnabled(projectId, name, "latest")) {
+        const current = await this.accessSecretVersion(projectId, name);
+        if (current.toString("base64") === payload.toString("base64")) {
+          results.push({ name, status: "unchanged" });
+          continue;
+        }
       }
-    };
+      const result = await this.setSecret(projectId, name, region, payload);
+      results.push({ name, status: result.created ? "created" : "updated", version: result.version });
+    }
+    return results;
+  }
 
+  // Lists the versions of a secret, newest first
+  async listVersions(projectId: string, secretName: string): Promise<SecretVersionInfo[]> {
     try {
-      const [createResponse] = await this.client.createSecret(secret);
-      console.log("Secret created:", createResponse);
-
-      const addSecretPayload = {
-        parent: createResponse.name,
-        payload: {
-          data: Buffer.from(answers.secretValue).toString("base64"),
-        },
+      const [versions] = await this.client.listSecretVersions({
+        parent: `projects/${projectId}/secrets/${secretName}`,
+      });
+      return versions
+        .map((version) => ({
+          version: versionId(version.name),
+          state: String(version.state || "STATE_UNSPECIFIED"),
+          createTime: timestampToIso(version.createTime),
+        }))
+        .sort((a, b) => Number(b.version) - Number(a.version));
+    } catch (error) {
+      console.error(`Error listing versions of secret ${secretName}:`, (error as Error).message);
+      throw error;
+    }
+  }
+
+  async getVersion(projectId: string, secretName: string, version = "latest"): Promise<SecretVersionInfo> {
+    try {
+      const [secretVersion] = await this.client.getSecretVersion({
+        name: `projects/${projectId}/secrets/${secretName}/versions/${version}`,
+      });
+      return {
+        version: versionId(secretVersion.name),
+        state: String(secretVersion.state || "STATE_UNSPECIFIED"),
+        createTime: timestampToIso(secretVersion.createTime),
       };
+    } catch (error) {
+      console.error(`Error fetching version ${version} of secret ${secretName}:`, (error as Error).message);
+      throw error;
+    }
+  }
+
+  async disableVersion(projectId: string, secretName: string, version: string): Promise<void> {
+    try {
+      await this.client.disableSecretVersion({
+        name: `projects/${projectId}/secrets/${secretName}/versions/${version}`,
+      });
+      console.log(`Disabled version ${version} of secret ${secretName}`);
+    } catch (error) {
+      console.error(`Error disabling version ${version} of secret ${secretName}:`, (error as Error).message);
+      throw error;
+    }
+  }
+
+  async destroyVersion(projectId: string, secretName: string, version: string): Promise<void> {
+    try {
+      await this.client.destroySecretVersion({
+        name: `projects/${projectId}/secrets/${secretName}/versions/${version}`,
+      });
+      console.log(`Destroyed version ${version} of secret ${secretName}`);
+    } catch (error) {
+      console.error(`Error destroying version ${version} of secret ${secretName}:`, (error as Error).message);
+      throw error;
+    }
+  }
 
-      const [addResponse] = await this.client.addSecretVersion(addSecretPayload);
-      console.log("Secret version added:", addResponse);
-      console.log(`Secret ${secretName} created successfully.`);
+  // Returns the payload of a version. Callers decide where it may go.
+  async accessSecretVersion(projectId: string, secretName: string, version = "latest"): Promise<Buffer> {
+    try {
+      const [response] = await this.client.accessSecretVersion({
+        name: `projects/${projectId}/secrets/${secretName}/versions/${version}`,
+      });
+      return Buffer.from(response.payload?.data || "");
     } catch (error) {
-      console.error("Error creating secret:", error);
+      console.error(`Error accessing version ${version} of secret ${secretName}:`, (error as Error).message);
       throw error;
     }
   }
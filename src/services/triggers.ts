@@ -0,0 +1,287 @@
+import { protos, v1 } from "npm:@google-cloud/pubsub@^4.8.0";
+import { GoogleAuth } from "npm:google-auth-library";
+import { CloudRunConfig, EventarcTriggerConfig, PubSubTriggerConfig } from "../config/parser.ts";
+import { createAuth } from "../utils/credentials.ts";
+import { parseDuration } from "../utils/duration.ts";
+
+type ISubscription = protos.google.pubsub.v1.ISubscription;
+
+const NOT_FOUND = 5;
+const OPERATION_POLLING_INTERVAL = 2000;
+const MANAGED_BY_LABEL = "managed-by";
+const SERVICE_LABEL = "cloudrunify-service";
+
+export type TriggerKind = "pubsub" | "eventarc";
+
+export interface TriggerChange {
+  action: "create" | "update" | "replace" | "delete";
+  kind: TriggerKind;
+  name: string;
+}
+
+export function formatTriggerChange(change: TriggerChange): string {
+  const verbs = { create: "Created", update: "Updated", replace: "Replaced", delete: "Deleted" };
+  const resource = change.kind === "pubsub" ? "Pub/Sub subscription" : "Eventarc trigger";
+  return `${verbs[change.action]} ${resource} ${change.name}`;
+}
+
+// Service accounts that deliver messages and events, which need the invoker
+// role on the service
+export function triggerIdentities(config: CloudRunConfig): string[] {
+  const { pubsub = [], eventarc = [] } = config.triggers || {};
+  return [...new Set([...pubsub, ...eventarc].map((trigger) => trigger.service_account))];
+}
+
+interface EventFilter {
+  attribute: string;
+  value: string;
+  operator?: string;
+}
+
+interface EventarcTrigger {
+  name?: string;
+  eventFilters: EventFilter[];
+  serviceAccount: string;
+  destination: { cloudRun: { service: string; region: string; path?: string } };
+  labels?: Record<string, string>;
+}
+
+interface Operation {
+  name: string;
+  done?: boolean;
+  error?: { code: number; message: string };
+}
+
+function topicPath(config: CloudRunConfig, topic: string): string {
+  return topic.includes("/") ? topic : `projects/${config.project_id}/topics/${topic}`;
+}
+
+function lastSegment(name: string): string {
+  return name.split("/").pop()!;
+}
+
+// Triggers are named <service>-<trigger> and labelled with the service, so
+// the ones removed from the config can be found
+function managedLabels(config: CloudRunConfig): Record<string, string> {
+  return { [MANAGED_BY_LABEL]: "cloudrunify", [SERVICE_LABEL]: config.service.name };
+}
+
+function isManaged(config: CloudRunConfig, labels?: Record<string, string> | null): boolean {
+  return labels?.[MANAGED_BY_LABEL] === "cloudrunify" && labels?.[SERVICE_LABEL] === config.service.name;
+}
+
+// The settings of a subscription that can be updated in place, as comparable
+// JSON. Its topic and filter can't, the subscription is replaced instead.
+function describeSubscription(subscription: ISubscription): string {
+  const push = subscription.pushConfig;
+  const deadLetter = subscription.deadLetterPolicy;
+  return JSON.stringify({
+    pushEndpoint: push?.pushEndpoint,
+    oidcToken: push?.oidcToken ? [push.oidcToken.serviceAccountEmail, push.oidcToken.audience] : undefined,
+    ackDeadlineSeconds: subscription.ackDeadlineSeconds || 10,
+    deadLetter: deadLetter?.deadLetterTopic ? [deadLetter.deadLetterTopic, deadLetter.maxDeliveryAttempts || 5] : undefined,
+  });
+}
+
+function describeTrigger(trigger: EventarcTrigger): string {
+  const { cloudRun } = trigger.destination;
+  return JSON.stringify({
+    eventFilters: [...trigger.eventFilters]
+      .sort((a, b) => a.attribute.localeCompare(b.attribute))
+      .map((filter) => [filter.attribute, filter.value, filter.operator || ""]),
+    serviceAccount: trigger.serviceAccount,
+    destination: [cloudRun.service, cloudRun.region, cloudRun.path || "/"],
+  });
+}
+
+// Reconciles `triggers` into Pub/Sub push subscriptions, which call the
+// service URL with an OIDC token, and Eventarc triggers in the service's
+// region, which Eventarc routes to the service by name. Eventarc has no
+// Node client, its v1 REST API is called through the auth client.
+export class TriggerService {
+  private subscriber: v1.SubscriberClient;
+  private auth: GoogleAuth;
+  private eventarcUrl: string;
+
+  constructor(private config: CloudRunConfig, credentialsPath?: string) {
+    try {
+      this.auth = createAuth(credentialsPath);
+      this.subscriber = new v1.SubscriberClient({ auth: this.auth });
+      this.eventarcUrl =
+        `https://eventarc.googleapis.com/v1/projects/${config.project_id}/locations/${config.region}/triggers`;
+    } catch (error: unknown) {
+      console.error("Error initializing authentication:", error);
+      throw error;
+    }
+  }
+
+  buildSubscription(trigger: PubSubTriggerConfig, serviceUrl: string): ISubscription {
+    const { config } = this;
+    const audience = serviceUrl.replace(/\/$/, "");
+    return {
+      name: `projects/${config.project_id}/subscriptions/${config.service.name}-${trigger.name}`,
+      topic: topicPath(config, trigger.topic),
+      pushConfig: {
+        pushEndpoint: `${audience}${trigger.path || "/"}`,
+        oidcToken: { serviceAccountEmail: trigger.service_account, audience },
+      },
+      ackDeadlineSeconds: trigger.ack_deadline ? Math.round(parseDuration(trigger.ack_deadline) / 1000) : 10,
+      deadLetterPolicy: trigger.dead_letter_topic
+        ? { deadLetterTopic: topicPath(config, trigger.dead_letter_topic), maxDeliveryAttempts: trigger.max_delivery_attempts || 5 }
+        : null,
+      ...(trigger.filter && { filter: trigger.filter }),
+      labels: managedLabels(config),
+    };
+  }
+
+  buildTrigger(trigger: EventarcTriggerConfig): EventarcTrigger {
+    const { config } = this;
+    return {
+      eventFilters: [
+        { attribute: "type", value: trigger.event_type },
+        ...Object.entries(trigger.filters || {}).map(([attribute, value]) => ({ attribute, value })),
+      ],
+      serviceAccount: trigger.service_account,
+      destination: { cloudRun: { service: config.service.name, region: config.region, path: trigger.path || "/" } },
+      labels: managedLabels(config),
+    };
+  }
+
+  // Creates and updates the subscriptions and triggers of `triggers`, and
+  // deletes the ones managed for the service that the config no longer lists
+  async reconcile(serviceUrl: string): Promise<TriggerChange[]> {
+    const changes: TriggerChange[] = [];
+    try {
+      changes.push(...await this.reconcileSubscriptions(serviceUrl));
+      changes.push(...await this.reconcileTriggers());
+    } catch (error) {
+      console.error("Error reconciling triggers:", error);
+      throw error;
+    }
+    return changes;
+  }
+
+  // Deletes every subscription and trigger managed for the service
+  async destroy(): Promise<TriggerChange[]> {
+    const changes: TriggerChange[] = [];
+    for (const subscription of await this.managedSubscriptions()) {
+      await this.subscriber.deleteSubscription({ subscription: subscription.name });
+      changes.push({ action: "delete", kind: "pubsub", name: lastSegment(subscription.name!) });
+    }
+    for (const trigger of await this.managedTriggers()) {
+      await this.waitForOperation(await this.request<Operation>("DELETE", `${this.eventarcUrl}/${lastSegment(trigger.name!)}`));
+      changes.push({ action: "delete", kind: "eventarc", name: lastSegment(trigger.name!) });
+    }
+    return changes;
+  }
+
+  private async reconcileSubscriptions(serviceUrl: string): Promise<TriggerChange[]> {
+    const changes: TriggerChange[] = [];
+    const live = new Map((await this.managedSubscriptions()).map((subscription) => [subscription.name!, subscription]));
+
+    for (const trigger of this.config.triggers?.pubsub || []) {
+      const desired = this.buildSubscription(trigger, serviceUrl);
+      const current = live.get(desired.name!);
+      live.delete(desired.name!);
+      const name = lastSegment(desired.name!);
+
+      if (current && (current.topic !== desired.topic || (current.filter || "") !== (desired.filter || ""))) {
+        await this.subscriber.deleteSubscription({ subscription: current.name });
+        await this.subscriber.createSubscription(desired);
+        changes.push({ action: "replace", kind: "pubsub", name });
+      } else if (!current) {
+        await this.subscriber.createSubscription(desired);
+        changes.push({ action: "create", kind: "pubsub", name });
+      } else if (describeSubscription(current) !== describeSubscription(desired)) {
+        await this.subscriber.updateSubscription({
+          subscription: desired,
+          updateMask: { paths: ["push_config", "ack_deadline_seconds", "dead_letter_policy"] },
+        });
+        changes.push({ action: "update", kind: "pubsub", name });
+      }
+    }
+
+    for (const subscription of live.values()) {
+      await this.subscriber.deleteSubscription({ subscription: subscription.name });
+      changes.push({ action: "delete", kind: "pubsub", name: lastSegment(subscription.name!) });
+    }
+    return changes;
+  }
+
+  private async reconcileTriggers(): Promise<TriggerChange[]> {
+    const changes: TriggerChange[] = [];
+    const live = new Map((await this.managedTriggers()).map((trigger) => [lastSegment(trigger.name!), trigger]));
+
+    for (const trigger of this.config.triggers?.eventarc || []) {
+      const desired = this.buildTrigger(trigger);
+      const id = `${this.config.service.name}-${trigger.name}`;
+      const current = live.get(id);
+      live.delete(id);
+
+      if (!current) {
+        await this.waitForOperation(
+          await this.request<Operation>("POST", `${this.eventarcUrl}?triggerId=${id}`, desired),
+        );
+        changes.push({ action: "create", kind: "eventarc", name: id });
+      } else if (describeTrigger(current) !== describeTrigger(desired)) {
+        await this.waitForOperation(
+          await this.request<Operation>(
+            "PATCH",
+            `${this.eventarcUrl}/${id}?updateMask=eventFilters,serviceAccount,destination`,
+            desired,
+          ),
+        );
+        changes.push({ action: "update", kind: "eventarc", name: id });
+      }
+    }
+
+    for (const id of live.keys()) {
+      await this.waitForOperation(await this.request<Operation>("DELETE", `${this.eventarcUrl}/${id}`));
+      changes.push({ action: "delete", kind: "eventarc", name: id });
+    }
+    return changes;
+  }
+
+  private async managedSubscriptions(): Promise<ISubscription[]> {
+    try {
+      const [subscriptions] = await this.subscriber.listSubscriptions({ project: `projects/${this.config.project_id}` });
+      return subscriptions.filter((subscription) => isManaged(this.config, subscription.labels));
+    } catch (error) {
+      if ((error as { code?: number }).code === NOT_FOUND) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  private async managedTriggers(): Promise<EventarcTrigger[]> {
+    const triggers: EventarcTrigger[] = [];
+    let pageToken: string | undefined;
+    do {
+      const page = await this.request<{ triggers?: EventarcTrigger[]; nextPageToken?: string }>(
+        "GET",
+        `${this.eventarcUrl}${pageToken ? `?pageToken=${pageToken}` : ""}`,
+      );
+      triggers.push(...(page.triggers || []));
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+    return triggers.filter((trigger) => isManaged(this.config, trigger.labels));
+  }
+
+  // Eventarc changes are long-running operations, polled until done
+  private async waitForOperation(operation: Operation) {
+    while (!operation.done) {
+      await new Promise((resolve) => setTimeout(resolve, OPERATION_POLLING_INTERVAL));
+      operation = await this.request<Operation>("GET", `https://eventarc.googleapis.com/v1/${operation.name}`);
+    }
+    if (operation.error) {
+      throw new Error(`Eventarc operation ${operation.name} failed: ${operation.error.message}`);
+    }
+  }
+
+  private async request<T>(method: "GET" | "POST" | "PATCH" | "DELETE", url: string, data?: unknown): Promise<T> {
+    const client = await this.auth.getClient();
+    const response = await client.request<T>({ url, method, data });
+    return response.data;
+  }
+}
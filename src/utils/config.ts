@@ -0,0 +1,27 @@
+import { CloudRunConfig, ConfigParser, ConfigValidationError } from "../config/parser.ts";
+import * as process from "node:process";
+
+// Loads and validates the config file, printing every validation problem and
+// exiting before any cloud call is made when it is invalid.
+export function loadConfig(path: string): CloudRunConfig {
+  try {
+    return ConfigParser.load(path);
+  } catch (error) {
+    if (error instanceof ConfigValidationError) {
+      console.error(error.message);
+    } else {
+      console.error(`Failed to read configuration ${path}:`, error);
+    }
+    process.exit(1);
+  }
+}
+
+// loadConfig for the commands that only work on services
+export function loadServiceConfig(path: string, command: string): CloudRunConfig {
+  const config = loadConfig(path);
+  if (config.kind === "job") {
+    console.error(`${command} only applies to services. Use \`cloudrunify job executions\` for jobs.`);
+    process.exit(1);
+  }
+  return config;
+}
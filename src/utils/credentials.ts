@@ -0,0 +1,39 @@
+import { existsSync, readFileSync } from "node:fs";
+import * as process from "node:process";
+import { GoogleAuth } from "npm:google-auth-library";
+
+// Resolves the --key option into the credentials path expected by the service
+// clients: "json" for GOOGLE_CREDENTIALS, a key file path, or undefined for ADC.
+export function resolveCredentialsPath(key?: string): string | undefined {
+  if (!key) {
+    return undefined;
+  }
+  if (key === "json") {
+    return "json";
+  }
+  if (existsSync(key)) {
+    return key;
+  }
+  console.error(`Service account key file not found: ${key}`);
+  process.exit(1);
+}
+
+// Builds a GoogleAuth client from a path resolved by resolveCredentialsPath,
+// falling back to Application Default Credentials when none is given.
+export function createAuth(credentialsPath?: string): GoogleAuth {
+  let credentials;
+  if (credentialsPath === "json") {
+    const jsonCreds = process.env.GOOGLE_CREDENTIALS;
+    if (!jsonCreds) {
+      throw new Error("GOOGLE_CREDENTIALS environment variable not found");
+    }
+    credentials = JSON.parse(jsonCreds);
+  } else if (credentialsPath) {
+    credentials = JSON.parse(readFileSync(credentialsPath, "utf-8"));
+  }
+
+  return new GoogleAuth({
+    credentials,
+    scopes: ["https://www.googleapis.com/auth/cloud-platform"],
+  });
+}
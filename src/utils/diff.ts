@@ -0,0 +1,57 @@
+export type ChangeKind = "add" | "remove" | "change";
+
+export interface FieldChange {
+  path: string;
+  kind: ChangeKind;
+  before?: string;
+  after?: string;
+}
+
+// Compares two flattened views of a resource. Keys listed in `unmanaged` are
+// only compared when the desired side declares them, so defaults filled in by
+// the API (e.g. the compute service account) don't show up as drift.
+export function diffRecords(
+  live: Record<string, string>,
+  desired: Record<string, string>,
+  unmanaged: string[] = [],
+): FieldChange[] {
+  const isUnmanaged = (path: string) =>
+    unmanaged.some((prefix) => path === prefix || path.startsWith(`${prefix}.`));
+
+  const paths = [...new Set([...Object.keys(live), ...Object.keys(desired)])].sort();
+  const changes: FieldChange[] = [];
+
+  for (const path of paths) {
+    const before = live[path];
+    const after = desired[path];
+    if (before === after) {
+      continue;
+    }
+    if (after === undefined) {
+      if (!isUnmanaged(path)) {
+        changes.push({ path, kind: "remove", before });
+      }
+    } else if (before === undefined) {
+      changes.push({ path, kind: "add", after });
+    } else {
+      changes.push({ path, kind: "change", before, after });
+    }
+  }
+
+  return changes;
+}
+
+export function formatChanges(changes: FieldChange[]): string {
+  return changes
+    .map((change) => {
+      switch (change.kind) {
+        case "add":
+          return `  + ${change.path}: ${change.after}`;
+        case "remove":
+          return `  - ${change.path}: ${change.before}`;
+        default:
+          return `  ~ ${change.path}: ${change.before} -> ${change.after}`;
+      }
+    })
+    .join("\n");
+}
@@ -0,0 +1,38 @@
+import { assertEquals } from "@std/assert";
+import { diffRecords, formatChanges } from "./diff.ts";
+
+Deno.test("diffRecords reports added, removed and changed fields in path order", () => {
+  const live = { "container.image": "api:1", "container.env.DEBUG": "1", "scaling.max_instances": "10" };
+  const desired = { "container.image": "api:2", "scaling.max_instances": "10", "scaling.min_instances": "1" };
+
+  assertEquals(diffRecords(live, desired), [
+    { path: "container.env.DEBUG", kind: "remove", before: "1" },
+    { path: "container.image", kind: "change", before: "api:1", after: "api:2" },
+    { path: "scaling.min_instances", kind: "add", after: "1" },
+  ]);
+});
+
+Deno.test("diffRecords ignores live fields under an unmanaged prefix unless the config declares them", () => {
+  const live = { "service_account": "123-compute@developer.gserviceaccount.com", "labels.managed-by": "console" };
+  const desired = { "service_account": "api@my-project.iam.gserviceaccount.com" };
+
+  assertEquals(diffRecords(live, {}, ["service_account", "labels"]), []);
+  assertEquals(diffRecords(live, desired, ["service_account"]), [
+    { path: "labels.managed-by", kind: "remove", before: "console" },
+    { path: "service_account", kind: "change", before: live.service_account, after: desired.service_account },
+  ]);
+});
+
+Deno.test("formatChanges prints one line per change", () => {
+  const output = formatChanges([
+    { path: "scaling.min_instances", kind: "add", after: "1" },
+    { path: "container.env.DEBUG", kind: "remove", before: "1" },
+    { path: "container.image", kind: "change", before: "api:1", after: "api:2" },
+  ]);
+
+  assertEquals(output.split("\n"), [
+    "  + scaling.min_instances: 1",
+    "  - container.env.DEBUG: 1",
+    "  ~ container.image: api:1 -> api:2",
+  ]);
+});
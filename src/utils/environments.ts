@@ -0,0 +1,45 @@
+import { ConfigParser, CloudRunConfig, Environment } from "../config/parser.ts";
+import { InterpolationError } from "../config/interpolate.ts";
+import * as process from "node:process";
+
+// Resolves the --env/--all-envs options into the environments to process.
+// --all-envs follows the order environments are declared in; a single --env
+// must be one of the declared names. Each environment's ${...} references are
+// resolved up front so nothing is deployed when one of them can't be.
+export function resolveEnvironments(
+  config: CloudRunConfig,
+  options: { env?: string; allEnvs?: boolean },
+): Environment[] {
+  const declared = ConfigParser.getEnvironments(config);
+
+  let envs: Environment[];
+  if (options.allEnvs) {
+    if (declared.length === 0) {
+      console.error("No environments defined in config");
+      process.exit(1);
+    }
+    envs = declared;
+  } else {
+    const targetEnv = options.env as Environment;
+    if (!declared.includes(targetEnv)) {
+      console.error(
+        `Environment '${targetEnv}' not defined in config. Declared environments: ${declared.join(", ") || "none"}`,
+      );
+      process.exit(1);
+    }
+    envs = [targetEnv];
+  }
+
+  for (const env of envs) {
+    try {
+      ConfigParser.getConfigForEnv(config, env);
+    } catch (error) {
+      if (error instanceof InterpolationError) {
+        console.error(error.message);
+        process.exit(1);
+      }
+      throw error;
+    }
+  }
+  return envs;
+}
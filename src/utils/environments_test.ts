@@ -0,0 +1,75 @@
+import { assertEquals, assertStringIncludes } from "@std/assert";
+import process from "node:process";
+import { CloudRunConfig } from "../config/parser.ts";
+import { resolveEnvironments } from "./environments.ts";
+
+const CONFIG = {
+  version: "1",
+  project_id: "my-project",
+  region: "europe-west1",
+  service: { name: "api", allow_unauthenticated: false },
+  container: { image: "europe-docker.pkg.dev/my-project/apps/api", port: 8080, resources: { cpu: "1", memory: "512Mi" } },
+  environments: { staging: {}, dev: {}, prod: {} },
+} as unknown as CloudRunConfig;
+
+// Runs `run` with process.exit throwing instead of exiting, and returns the
+// exit code and what was printed to stderr
+function exitOf(run: () => unknown): { code?: number; stderr: string } {
+  const { exit } = Deno;
+  const { error } = console;
+  const printed: string[] = [];
+  let code: number | undefined;
+  Object.defineProperty(Deno, "exit", {
+    value: (exitCode?: number) => {
+      code = exitCode;
+      throw new Error("exit");
+    },
+  });
+  console.error = (...args: unknown[]) => printed.push(args.join(" "));
+  try {
+    run();
+  } catch (thrown) {
+    if (code === undefined) {
+      throw thrown;
+    }
+  } finally {
+    Object.defineProperty(Deno, "exit", { value: exit });
+    console.error = error;
+    process.exitCode = undefined;
+  }
+  return { code, stderr: printed.join("\n") };
+}
+
+Deno.test("resolveEnvironments returns a declared --env", () => {
+  assertEquals(resolveEnvironments(CONFIG, { env: "prod" }), ["prod"]);
+});
+
+Deno.test("resolveEnvironments returns every environment in declared order with --all-envs", () => {
+  assertEquals(resolveEnvironments(CONFIG, { env: "dev", allEnvs: true }), ["staging", "dev", "prod"]);
+});
+
+Deno.test("resolveEnvironments exits 1 on an undeclared --env", () => {
+  const { code, stderr } = exitOf(() => resolveEnvironments(CONFIG, { env: "prdo" }));
+
+  assertEquals(code, 1);
+  assertStringIncludes(stderr, "Environment 'prdo' not defined in config. Declared environments: staging, dev, prod");
+});
+
+Deno.test("resolveEnvironments exits 1 on --all-envs without environments", () => {
+  const { code, stderr } = exitOf(() => resolveEnvironments({ ...CONFIG, environments: {} }, { allEnvs: true }));
+
+  assertEquals(code, 1);
+  assertStringIncludes(stderr, "No environments defined in config");
+});
+
+Deno.test("resolveEnvironments exits 1 when a reference of the environment can't be resolved", () => {
+  const config = {
+    ...CONFIG,
+    environments: { ...CONFIG.environments, prod: { service: { name: "${UNSET_SERVICE_NAME}" } } },
+  } as unknown as CloudRunConfig;
+
+  assertEquals(resolveEnvironments(config, { env: "dev" }), ["dev"]);
+  const { code, stderr } = exitOf(() => resolveEnvironments(config, { allEnvs: true }));
+  assertEquals(code, 1);
+  assertStringIncludes(stderr, "service.name: ${UNSET_SERVICE_NAME} is not set in the environment or the config");
+});
@@ -0,0 +1,34 @@
+import { execSync } from "node:child_process";
+
+export interface GitInfo {
+  sha: string;
+  short_sha: string;
+  branch: string;
+  dirty: boolean;
+}
+
+let gitInfo: GitInfo | null | undefined;
+
+function git(args: string): string {
+  try {
+    return execSync(`git ${args}`, { encoding: "utf-8", stdio: ["ignore", "pipe", "ignore"] }).trim();
+  } catch {
+    return "";
+  }
+}
+
+// Reads the current checkout once per run; null outside a git repository
+export function readGitInfo(): GitInfo | null {
+  if (gitInfo === undefined) {
+    const sha = git("rev-parse HEAD");
+    gitInfo = sha
+      ? {
+        sha,
+        short_sha: sha.slice(0, 7),
+        branch: git("rev-parse --abbrev-ref HEAD"),
+        dirty: git("status --porcelain") !== "",
+      }
+      : null;
+  }
+  return gitInfo;
+}
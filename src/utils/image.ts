@@ -0,0 +1,55 @@
+import { readGitInfo } from "./git.ts";
+
+export interface ImageReference {
+  repository: string; // e.g. us-docker.pkg.dev/my-project/apps/api
+  tag?: string;
+  digest?: string; // sha256:...
+}
+
+export type TagStrategy = "git-sha" | "timestamp" | "git-sha-timestamp";
+
+export function parseImage(image: string): ImageReference {
+  const [name, digest] = image.split("@");
+  // A colon after the last slash is a tag, before it a registry port
+  const lastSlash = name.lastIndexOf("/");
+  const lastColon = name.lastIndexOf(":");
+  if (lastColon > lastSlash) {
+    return { repository: name.slice(0, lastColon), tag: name.slice(lastColon + 1), digest };
+  }
+  return { repository: name, digest };
+}
+
+// A digest pins the image, so the tag is dropped from the reference
+export function formatImage(image: ImageReference): string {
+  if (image.digest) {
+    return `${image.repository}@${image.digest}`;
+  }
+  return image.tag ? `${image.repository}:${image.tag}` : image.repository;
+}
+
+// Immutable tag for a new build. Uncommitted changes get a timestamp so they
+// never overwrite the tag of the commit they are based on.
+export function createImageTag(strategy: TagStrategy = "git-sha"): string {
+  const timestamp = new Date().toISOString().replace(/[-:T]/g, "").slice(0, 14);
+  const git = readGitInfo();
+  if (!git || strategy === "timestamp") {
+    return timestamp;
+  }
+  if (strategy === "git-sha-timestamp") {
+    return `${git.short_sha}-${timestamp}`;
+  }
+  return git.dirty ? `${git.short_sha}-dirty-${timestamp}` : git.short_sha;
+}
+
+// Revision labels recording what is running. Label values are limited to 63
+// lowercase letters, digits, underscores and dashes.
+export function imageLabels(image: ImageReference): Record<string, string> {
+  const labels: Record<string, string> = {};
+  if (image.tag) {
+    labels["cloudrunify-image-tag"] = image.tag.toLowerCase().replace(/[^a-z0-9_-]/g, "_").slice(0, 63);
+  }
+  if (image.digest) {
+    labels["cloudrunify-image-digest"] = image.digest.replace(/^sha256:/, "").slice(0, 12);
+  }
+  return labels;
+}
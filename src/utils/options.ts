@@ -0,0 +1,10 @@
+import { InvalidArgumentError } from "npm:commander";
+
+// argParser of count options such as --revisions and --limit
+export function parsePositiveInteger(value: string): number {
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 1) {
+    throw new InvalidArgumentError("Must be a positive integer.");
+  }
+  return count;
+}
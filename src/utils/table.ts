@@ -0,0 +1,9 @@
+// Renders rows as left-aligned columns separated by two spaces
+export function formatTable(headers: string[], rows: string[][]): string {
+  const widths = headers.map((header, index) =>
+    Math.max(header.length, ...rows.map((row) => (row[index] ?? "").length))
+  );
+  return [headers, ...rows]
+    .map((row) => row.map((cell, index) => (cell ?? "").padEnd(widths[index])).join("  ").trimEnd())
+    .join("\n");
+}